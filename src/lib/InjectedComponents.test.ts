@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tick } from 'svelte';
+import { get } from 'svelte/store';
+import InjectedComponents from './InjectedComponents.svelte';
+import Card from './Card.test.svelte';
+import Counter from './Counter.test.svelte';
+import { type Injector, type SvelteElement, createInjector } from './SvelteInjector.js';
+
+// Lets the mutation observers and the Svelte updates run
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+describe('nested elements', () => {
+	let injector: Injector;
+	let app: InjectedComponents;
+
+	beforeEach(() => {
+		injector = createInjector();
+		injector.registerComponent('card', Card);
+		injector.registerComponent('counter', Counter);
+		app = new InjectedComponents({ target: document.body, props: { injector } });
+	});
+
+	afterEach(() => {
+		app.$destroy();
+		document.body.innerHTML = '';
+	});
+
+	async function render(keepAlive: boolean): Promise<[SvelteElement, SvelteElement]> {
+		const root = document.createElement('div');
+		root.innerHTML = `<div id="card" data-component-name="card"><div id="counter" data-component-name="counter"></div></div>`;
+		document.body.append(root);
+
+		const card = await injector.hydrateElement(root.querySelector('#card') as HTMLElement, {
+			keepAlive
+		});
+		const counter = await injector.hydrateElement(root.querySelector('#counter') as HTMLElement);
+		await tick();
+		return [card, counter];
+	}
+
+	async function increment() {
+		document.querySelector('#counter button')?.dispatchEvent(new MouseEvent('click'));
+		await tick();
+	}
+
+	for (const keepAlive of [true, false]) {
+		it(`keeps the elements in the slots of a hidden element (keepAlive: ${keepAlive})`, async () => {
+			const [card, counter] = await render(keepAlive);
+			await increment();
+
+			await card.setToRender(false);
+			await settle();
+			expect(document.querySelector('#counter')?.isConnected).toBeFalsy();
+			expect(await injector.getComponentsNumber()).toBe(2);
+
+			await card.setToRender(true);
+			await settle();
+			expect(document.querySelector('#counter button')?.textContent).toBe('1');
+			expect(counter.instance).toBeDefined();
+			expect(await injector.getComponentsNumber()).toBe(2);
+		});
+
+		it(`destroys the kept elements with the hidden element (keepAlive: ${keepAlive})`, async () => {
+			const [card] = await render(keepAlive);
+
+			await card.setToRender(false);
+			await settle();
+			await card.destroy();
+			await settle();
+			expect(get(injector.components)).toEqual([]);
+		});
+	}
+});
@@ -0,0 +1,210 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { tick } from 'svelte';
+import InjectedComponents from './InjectedComponents.svelte';
+import Card from './Card.test.svelte';
+import Counter from './Counter.test.svelte';
+import { type Injector, type LifecycleEvent, createInjector } from './SvelteInjector.js';
+
+function createPlaceholder(html: string): HTMLElement {
+	const root = document.createElement('div');
+	root.innerHTML = html;
+	document.body.append(root);
+	return root;
+}
+
+// Lets the mutation observers and the Svelte updates run
+const settle = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+let injector: Injector;
+let app: InjectedComponents;
+
+beforeEach(() => {
+	injector = createInjector();
+	injector.registerComponent('counter', Counter);
+	app = new InjectedComponents({ target: document.body, props: { injector } });
+});
+
+afterEach(() => {
+	app.$destroy();
+	document.body.innerHTML = '';
+	vi.restoreAllMocks();
+});
+
+describe('hydrateWithReport', () => {
+	beforeEach(() => {
+		vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	it('reports the mounted elements', async () => {
+		const root = createPlaceholder('<div data-component-name="counter"></div>');
+
+		const { elements, failures, pending } = await injector.hydrateWithReport(root);
+
+		expect(elements).toMatchObject([{ name: 'counter' }]);
+		expect(failures).toEqual([]);
+		expect(pending).toEqual([]);
+	});
+
+	it('reports unregistered components', async () => {
+		const root = createPlaceholder('<div data-component-name="missing"></div>');
+
+		const { elements, failures } = await injector.hydrateWithReport(root);
+
+		expect(elements).toEqual([]);
+		expect(failures).toMatchObject([{ componentName: 'missing', reason: 'unregistered' }]);
+	});
+
+	it('reports failed getters', async () => {
+		const error = new Error('offline');
+		injector.registerComponent('lazy', () => Promise.reject<typeof Counter>(error));
+		const root = createPlaceholder('<div data-component-name="lazy"></div>');
+
+		const { failures } = await injector.hydrateWithReport(root);
+
+		expect(failures).toMatchObject([{ componentName: 'lazy', reason: 'getter-failed', error }]);
+	});
+
+	it('reports props in an unknown format as malformed', async () => {
+		const root = createPlaceholder(
+			'<div data-component-name="counter" data-props-format="yaml"><template class="props">name: world</template></div>'
+		);
+
+		const { elements, failures } = await injector.hydrateWithReport(root);
+
+		expect(elements).toEqual([]);
+		expect(failures).toMatchObject([{ componentName: 'counter', reason: 'malformed-props' }]);
+	});
+
+	it('reports malformed toRender attributes', async () => {
+		const root = createPlaceholder(
+			'<div data-component-name="counter" data-to-render="yes"></div>'
+		);
+
+		const { failures } = await injector.hydrateWithReport(root);
+
+		expect(failures).toMatchObject([{ componentName: 'counter', reason: 'malformed-to-render' }]);
+	});
+
+	it('reports the elements already hydrated', async () => {
+		const root = createPlaceholder('<div data-component-name="counter"></div>');
+		await injector.hydrateWithReport(root);
+
+		const { elements, failures } = await injector.hydrateWithReport(root);
+
+		expect(elements).toEqual([]);
+		expect(failures).toMatchObject([{ componentName: 'counter', reason: 'already-hydrated' }]);
+	});
+
+	it('reports the deferred elements as pending', async () => {
+		const root = createPlaceholder('<div data-component-name="counter" data-hydrate="idle"></div>');
+
+		const { elements, failures, pending } = await injector.hydrateWithReport(root);
+
+		expect(elements).toEqual([]);
+		expect(failures).toEqual([]);
+		expect(pending).toMatchObject([{ componentName: 'counter', strategy: 'idle' }]);
+	});
+});
+
+describe('lifecycle hooks', () => {
+	function listen(register: (handler: (event: LifecycleEvent) => void) => () => void) {
+		const events: string[] = [];
+		const stop = register(({ name }) => events.push(name ?? ''));
+		return { events, stop };
+	}
+
+	it('calls the handlers through the life of an element', async () => {
+		const created = listen(injector.onElementCreated);
+		const mounted = listen(injector.onElementMounted);
+		const propsUpdated = listen(injector.onPropsUpdated);
+		const toRenderChanged = listen(injector.onToRenderChanged);
+		const destroyed = listen(injector.onElementDestroyed);
+		const root = createPlaceholder('<div data-component-name="counter"></div>');
+
+		const element = await injector.hydrateElement(root.firstElementChild as HTMLElement);
+		expect(created.events).toEqual(['counter']);
+		expect(mounted.events).toEqual(['counter']);
+
+		element.updateProps({});
+		await settle();
+		expect(propsUpdated.events).toEqual(['counter']);
+
+		element.setToRender(false);
+		await settle();
+		expect(toRenderChanged.events).toEqual(['counter']);
+
+		await element.destroy();
+		expect(destroyed.events).toEqual(['counter']);
+	});
+
+	it('gives the timing of the element', async () => {
+		let event: LifecycleEvent | undefined;
+		injector.onElementMounted((e) => (event = e));
+		const root = createPlaceholder('<div data-component-name="counter"></div>');
+
+		const element = await injector.hydrateElement(root.firstElementChild as HTMLElement);
+
+		expect(event?.element).toBe(element);
+		expect(event?.timing.createdAt).toBeTypeOf('number');
+		expect(event?.timing.mountDelay).toBeTypeOf('number');
+	});
+
+	it('stops calling the removed handlers', async () => {
+		const created = listen(injector.onElementCreated);
+		created.stop();
+		const root = createPlaceholder('<div data-component-name="counter"></div>');
+
+		await injector.hydrateElement(root.firstElementChild as HTMLElement);
+
+		expect(created.events).toEqual([]);
+	});
+
+	it('logs the errors of the handlers', async () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		injector.onElementCreated(() => {
+			throw new Error('telemetry');
+		});
+		const root = createPlaceholder('<div data-component-name="counter"></div>');
+
+		await expect(
+			injector.hydrateElement(root.firstElementChild as HTMLElement)
+		).resolves.toMatchObject({ name: 'counter' });
+		expect(error).toHaveBeenCalledWith('Lifecycle handler "created" failed:', expect.any(Error));
+	});
+});
+
+describe('replaceComponent', () => {
+	it('recreates the live elements with the new component, keeping their props', async () => {
+		const root = createPlaceholder(
+			'<div data-component-name="counter" data-prop-label="a"></div><div data-component-name="counter"></div>'
+		);
+		const { elements } = await injector.hydrateWithReport(root);
+
+		const replaced = await injector.replaceComponent('counter', Card);
+		await tick();
+
+		expect(replaced).toEqual(elements);
+		expect(replaced.map((element) => element.Component)).toEqual([Card, Card]);
+		expect(replaced.map((element) => element.props)).toEqual([{ label: 'a' }, {}]);
+		expect(root.querySelectorAll('section')).toHaveLength(2);
+		expect(root.querySelector('button')).toBeNull();
+	});
+});
+
+describe('createInjector', () => {
+	it('leaves the elements of another injector', async () => {
+		const other = createInjector();
+		other.registerComponent('counter', Counter);
+		const otherApp = new InjectedComponents({ target: document.body, props: { injector: other } });
+		const root = createPlaceholder('<div data-component-name="counter"></div>');
+
+		const { elements } = await injector.hydrateWithReport(root);
+		const report = await other.hydrateWithReport(root);
+
+		expect(elements).toHaveLength(1);
+		expect(report).toEqual({ elements: [], failures: [], pending: [] });
+		expect(await other.getComponentsNumber()).toBe(0);
+		otherApp.$destroy();
+	});
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from 'vitest';
+import { get } from 'svelte/store';
+import type { ComponentType } from 'svelte';
+import {
+	createInjector,
+	deserializeProps,
+	registerPropsCodec,
+	serializeProps
+} from './SvelteInjector.js';
+
+const Hello = class {} as unknown as ComponentType;
+const World = class {} as unknown as ComponentType;
+
+describe('props codecs', () => {
+	it('round-trips JSON props, encoded or not', () => {
+		const props = { name: 'world', count: 2, tags: ['a', 'b'], nested: { ok: true } };
+
+		expect(deserializeProps(serializeProps(props))).toEqual(props);
+		expect(deserializeProps(serializeProps(props, false))).toEqual(props);
+	});
+
+	it('round-trips the values JSON loses with devalue', () => {
+		const shared = { id: 1 };
+		const props = {
+			date: new Date('2024-01-02T03:04:05Z'),
+			map: new Map([['key', 1]]),
+			set: new Set([1, 2]),
+			big: BigInt(10),
+			missing: undefined,
+			first: shared,
+			second: shared
+		};
+
+		const parsed = deserializeProps<any>(serializeProps(props, true, 'devalue'), 'devalue');
+
+		expect(parsed).toEqual(props);
+		expect(parsed.date).toBeInstanceOf(Date);
+		expect(parsed.first).toBe(parsed.second);
+		expect('missing' in parsed).toBe(true);
+	});
+
+	it('round-trips cycles with devalue', () => {
+		const props: Record<string, any> = { name: 'cycle' };
+		props.self = props;
+
+		const parsed = deserializeProps<any>(serializeProps(props, false, 'devalue'), 'devalue');
+
+		expect(parsed.self).toBe(parsed);
+	});
+
+	it('uses the registered codecs', () => {
+		registerPropsCodec('csv', {
+			serialize: (props) => Object.entries(props).join(';'),
+			parse: (value) => Object.fromEntries(value.split(';').map((entry) => entry.split(',')))
+		});
+
+		expect(serializeProps({ a: '1', b: '2' }, false, 'csv')).toBe('a,1;b,2');
+		expect(deserializeProps('a,1;b,2', 'csv')).toEqual({ a: '1', b: '2' });
+	});
+
+	it('throws on unknown formats', () => {
+		expect(() => serializeProps({}, true, 'unknown')).toThrow('Props format "unknown" not found');
+		expect(() => deserializeProps('{}', 'unknown')).toThrow('Props format "unknown" not found');
+	});
+});
+
+describe('registry', () => {
+	it('derives the names from the file names', () => {
+		const injector = createInjector();
+		const names = injector.registerComponents({
+			'./widgets/UserCard.svelte': Hello,
+			'./widgets/nested/world.svelte': { default: World }
+		});
+
+		expect(names).toEqual(['UserCard', 'world']);
+		expect(injector.getRegisteredNames()).toEqual(['UserCard', 'world']);
+	});
+
+	it('derives the names with toName', () => {
+		const injector = createInjector();
+		const names = injector.registerComponents(
+			{ './widgets/UserCard.svelte': Hello },
+			{ toName: (path) => path.split('/').pop()!.replace('.svelte', '').toLowerCase() }
+		);
+
+		expect(names).toEqual(['usercard']);
+	});
+
+	it('registers eager modules as components and lazy ones as getters', async () => {
+		const injector = createInjector();
+		const getter = vi.fn(() => Promise.resolve({ default: World }));
+		injector.registerComponents({ './Hello.svelte': { default: Hello }, './World.svelte': getter });
+
+		expect(injector.findRegisteredComponentNameByClass(Hello)).toBe('Hello');
+		expect(injector.findRegisteredComponentNameByClass(World)).toBeUndefined();
+		expect(getter).not.toHaveBeenCalled();
+
+		await expect(injector.findComponentByName('World')).resolves.toBe(World);
+		expect(getter).toHaveBeenCalledTimes(1);
+		expect(injector.findRegisteredComponentNameByClass(World)).toBe('World');
+	});
+
+	it('unregisters components', async () => {
+		const injector = createInjector();
+		injector.registerComponent('hello', Hello);
+		injector.registerComponent('world', World);
+
+		injector.unregisterComponent('hello');
+
+		expect(injector.getRegisteredNames()).toEqual(['world']);
+		await expect(injector.findComponentByName('hello')).resolves.toBeUndefined();
+	});
+
+	it('replaces the component of a lazy link', async () => {
+		const injector = createInjector();
+		const getter = vi.fn(() => Promise.resolve(Hello));
+		injector.registerComponent('hello', getter);
+
+		await expect(injector.replaceComponent('hello', World)).resolves.toEqual([]);
+
+		await expect(injector.findComponentByName('hello')).resolves.toBe(World);
+		expect(getter).not.toHaveBeenCalled();
+	});
+});
+
+describe('createInjector', () => {
+	it('keeps its own registry', () => {
+		const first = createInjector();
+		const second = createInjector();
+
+		first.registerComponent('hello', Hello);
+
+		expect(first.getRegisteredNames()).toEqual(['hello']);
+		expect(second.getRegisteredNames()).toEqual([]);
+		expect(second.findRegisteredComponentNameByClass(Hello)).toBeUndefined();
+	});
+
+	it('keeps its own components store', () => {
+		const first = createInjector();
+		const second = createInjector();
+
+		expect(first.components).not.toBe(second.components);
+		expect(get(first.components)).toEqual([]);
+	});
+});
@@ -1,11 +1,35 @@
-import { components } from './stores.js';
-import type { ComponentProps, ComponentType, SvelteComponent } from 'svelte';
-import { get } from 'svelte/store';
+import { type ComponentProps, type ComponentType, type SvelteComponent, tick } from 'svelte';
+import { get, writable } from 'svelte/store';
+import * as devalue from 'devalue';
+import { DEV } from 'esm-env';
+import { isSvelte5Component, mountSvelte5 } from './internal/svelte5.js';
+import { type PropsSchema, type PropsValidator, validate } from './internal/validation.js';
+import { type HydrateStrategy, isHydrateStrategy, waitForStrategy } from './internal/hydration.js';
+import { createSharedObservers } from './internal/observers.js';
+import { type LoadOptions, loadWithRetries } from './internal/loading.js';
+import { transitionOut } from './internal/transitions.js';
+import { parsePropAttribute, parsePropTypes, toPropName } from './internal/attributes.js';
+
+export type {
+	PropsSchema,
+	PropsSchemaType,
+	PropsValidationIssue,
+	PropsValidator
+} from './internal/validation.js';
+export type { HydrateStrategy } from './internal/hydration.js';
 
 interface SvelteLink<L extends string = string, T extends SvelteComponent = SvelteComponent> {
 	name: L;
 	svelteComponent?: ComponentType<T>;
 	svelteComponentGetter?: () => Promise<ComponentType<T>>;
+	/** getter call in progress, shared by the elements waiting for it */
+	pending?: Promise<ComponentType<T>>;
+	schema?: PropsSchema | PropsValidator;
+	fallback?: ComponentType;
+	loading?: ComponentType;
+	error?: ComponentType;
+	timeout?: number;
+	retries?: number;
 }
 
 interface SvelteBaseElement<T extends SvelteComponent = SvelteComponent> {
@@ -14,62 +38,240 @@ interface SvelteBaseElement<T extends SvelteComponent = SvelteComponent> {
 	props: ComponentProps<T>;
 	toRender: boolean;
 	index: number;
+	name?: string;
+	on?: EventHandlers;
+	slots?: Slots;
+	context?: Context;
+	/** the element contains the server rendered HTML of the component, see svelte-injector/server */
+	ssr?: boolean;
+	/** plays the intro transitions on mount, from the data-intro attribute */
+	intro?: boolean;
+	timing?: ElementTiming;
 }
 
 export interface SvelteElement<T extends SvelteComponent = SvelteComponent>
 	extends SvelteBaseElement<T> {
 	instance?: T;
 	options: Options;
-	observers?: MutationObserver[];
+	on: EventHandlers;
+	slots: Slots;
+	context: Context;
+	timing: ElementTiming;
+	/** rendered in place of the component when it throws, see {@link RegisterOptions} */
+	fallback?: ComponentType;
+	/** last error thrown by the component, cleared when it is mounted */
+	error?: unknown;
+	/** incremented by retry(), recreates the component */
+	attempt: number;
 	onMount(): void;
-	destroy(): void;
+	onError(error: unknown): void;
+	onPropsChange(key: string, value: unknown): void;
+	/** resolves when the outro is finished */
+	destroy(): Promise<void>;
+	retry(): Promise<null>;
 	updateProps(props: ComponentProps<T>): void;
 	setToRender(toRender: boolean): void;
+	/** moves the instance to another node without recreating it */
+	moveTo(domElement: HTMLElement): Promise<null>;
+	updateContext(context: Context): void;
+	/** replaces the event handlers, the listeners are bound again */
+	updateEventHandlers(on: EventHandlers): void;
 }
 
+export type EventHandler = (event: CustomEvent) => void;
+
+export type EventHandlers = Record<string, EventHandler>;
+
+export type Slots = Record<string, Node[]>;
+
+export type Context = Map<any, any>;
+
+export interface PropsCodec {
+	serialize(props: Record<string, any>): string;
+	parse(value: string): Record<string, any>;
+}
+
+export interface RegisterOptions extends LoadOptions {
+	/** validator function or JSON-Schema-like descriptor, checked in development only */
+	schema?: PropsSchema | PropsValidator;
+	/** component rendered in place of the failed one, with the `error`, `props` and `retry` props */
+	fallback?: ComponentType;
+	/** component rendered while the lazy getter is pending, with the `name` prop */
+	loading?: ComponentType;
+	/** component rendered when the lazy getter failed every attempt, with the `name` and `error` props */
+	error?: ComponentType;
+}
+
+export interface RegisterManyOptions extends RegisterOptions {
+	/** derives the component name from the record key, defaults to the file name without extension */
+	toName?: (path: string) => string;
+}
+
+/**
+ * A component or an ES module exporting it as default, es: an eager `import.meta.glob` entry
+ */
+export type ComponentModule = ComponentType | { default: ComponentType };
+
+export type HydrateFailureReason =
+	| 'unregistered'
+	| 'getter-failed'
+	| 'malformed-props'
+	| 'malformed-to-render'
+	| 'already-hydrated'
+	| 'mount-failed'
+	| 'cancelled';
+
+export interface HydrateFailure {
+	domElement: HTMLElement;
+	componentName: string | undefined;
+	reason: HydrateFailureReason;
+	/** original error, if any */
+	error?: unknown;
+}
+
+export interface PendingHydration {
+	domElement: HTMLElement;
+	componentName: string | undefined;
+	strategy: HydrateStrategy;
+	/** resolves the element when it is mounted, rejects with a {@link HydrateFailure} */
+	mounted: Promise<SvelteElement>;
+}
+
+export interface HydrateReport {
+	elements: SvelteElement[];
+	failures: HydrateFailure[];
+	/** elements waiting for their hydration strategy */
+	pending: PendingHydration[];
+}
+
+export interface InspectedElement {
+	index: number;
+	/** registered name of the component, if any */
+	name: string | undefined;
+	props: Record<string, any>;
+	toRender: boolean;
+	domElement: HTMLElement;
+	/** the live element, to update or destroy it */
+	element: SvelteElement;
+}
+
+/**
+ * Times in milliseconds, from performance.now()
+ */
+export interface ElementTiming {
+	/** when create or hydrate started creating the element */
+	createdAt: number;
+	/** time spent loading the component with its lazy getter, 0 when it was already loaded */
+	loadTime: number;
+	/** delay between the creation and the first mount, undefined until mounted */
+	mountDelay?: number;
+}
+
+export interface LifecycleEvent<T extends SvelteComponent = SvelteComponent> {
+	element: SvelteElement<T>;
+	/** registered name of the component, if any */
+	name: string | undefined;
+	timing: ElementTiming;
+}
+
+export type LifecycleHandler = (event: LifecycleEvent) => void;
+
+type LifecycleHook = 'created' | 'mounted' | 'propsUpdated' | 'toRenderChanged' | 'destroyed';
+
+export interface InjectorOptions {
+	/** unique id of the injector, written on its elements. Random by default */
+	id?: string;
+}
+
+export interface RootObserver {
+	/** resolves the report of the first hydration of the root */
+	ready: Promise<HydrateReport>;
+	/** stops watching the root and cancels its pending hydrations, elements already created are kept */
+	stop(): void;
+}
+
+export type PropsChangeHandler = (key: string, value: any) => void;
+
+export type ErrorHandler = (error: unknown, element: SvelteElement) => void;
+
 export interface CreateOptions {
 	observeParents?: boolean;
+	on?: EventHandlers;
+	bindings?: string[];
+	onPropsChange?: PropsChangeHandler;
+	slots?: Slots;
+	context?: Context;
+	onError?: ErrorHandler;
+	keepAlive?: boolean;
+	intro?: boolean;
 }
 
 export interface HydrateOptions {
 	observe?: boolean;
 	observeParents?: boolean;
+	on?: EventHandlers;
+	bindings?: string[];
+	onPropsChange?: PropsChangeHandler;
+	context?: Context;
+	strategy?: HydrateStrategy;
+	onError?: ErrorHandler;
+	keepAlive?: boolean;
+	intro?: boolean;
 }
 
 interface Options {
 	observe: boolean;
 	observeParents: boolean;
+	on: EventHandlers;
+	bindings: string[];
+	onPropsChange?: PropsChangeHandler;
+	context?: Context;
+	onError?: ErrorHandler;
+	keepAlive?: boolean;
+	intro?: boolean;
 }
 
 const svelteIndexAttribute = 'svelte-element-index';
-
-let links: Record<string, SvelteLink> = {};
-let lastIndex = -1;
+const svelteInjectorAttribute = 'svelte-injector-id';
+
+const eventAttributePrefix = 'data-on-';
+const contextAttribute = 'data-context';
+const hydrateAttribute = 'data-hydrate';
+const ssrAttribute = 'data-ssr';
+const introAttribute = 'data-intro';
+const propAttributePrefix = 'data-prop-';
+const propTypesAttribute = 'data-props-types';
+const toRenderAttribute = 'data-to-render';
+const defaultPropsFormat = 'json';
+
+const propsCodecs: Record<string, PropsCodec> = {
+	json: { serialize: (props) => stringify(props), parse: (value) => parseProps(value) },
+	// Round-trips Date, Map, Set, BigInt, undefined, repeated references and cycles
+	devalue: { serialize: devalue.stringify, parse: devalue.parse }
+};
 const defaultOptions: Options = {
 	observe: true,
-	observeParents: true
+	observeParents: true,
+	on: {},
+	bindings: []
 };
 
 /**
- * @description Link a component class or a function to a string name.
- * Useful to create components from the DOM template with {@link hydrate}.
+ * @description Link a props codec to a format name.
+ * Useful to hydrate props that are not plain JSON, with the data-props-format attribute.
  *
- * @param name - name to assign to the component or function {@link registerComponent}
- * @param svelteComponent - Svelte component class
+ * Built-in formats: "json" (default) and "devalue".
+ *
+ * @example
+ * registerPropsCodec('yaml', { serialize: YAML.stringify, parse: YAML.parse });
+ *
+ * <div data-component-name="hello" data-props-format="yaml"></div>
+ *
+ * @param name - name of the format
+ * @param codec - object with the serialize and parse functions
  */
-
-export function registerComponent<L extends string, T extends SvelteComponent>(
-	name: L,
-	svelteComponent: ComponentType<T> | (() => Promise<ComponentType<T>>)
-): void {
-	if (isComponentClass<T>(svelteComponent)) {
-		links[name] = { name, svelteComponent: svelteComponent };
-	} else {
-		links[name] = {
-			name,
-			svelteComponentGetter: svelteComponent
-		};
-	}
+export function registerPropsCodec(name: string, codec: PropsCodec): void {
+	propsCodecs[name] = codec;
 }
 
 function isComponentClass<T extends SvelteComponent>(func: any): func is ComponentType<T> {
@@ -77,425 +279,1399 @@ function isComponentClass<T extends SvelteComponent>(func: any): func is Compone
 }
 
 /**
- * Creates a single element at the bottom of an HTML element by component class or link name.
+ * Svelte 3/4 components compiled for SSR are objects with a render function.
+ */
+function isServerComponent(component: any): boolean {
+	return typeof component === 'object' && typeof component?.render === 'function';
+}
+
+/**
+ * Mounts a component that is not rendered by InjectedComponents, es: a loading indicator.
+ */
+function mountStatic(
+	Component: ComponentType,
+	target: HTMLElement,
+	props: Record<string, unknown>
+): SvelteComponent {
+	return isSvelte5Component(Component)
+		? mountSvelte5(Component, { target, props })
+		: new Component({ target, props });
+}
+
+function isLazyModule(
+	entry: ComponentModule | (() => Promise<ComponentModule>)
+): entry is () => Promise<ComponentModule> {
+	return typeof entry === 'function' && !isComponentClass(entry) && !isSvelte5Component(entry);
+}
+
+function fromModule(entry: ComponentModule): ComponentType {
+	return typeof entry === 'object' && 'default' in entry ? entry.default : entry;
+}
+
+/**
+ * ./widgets/UserCard.svelte -> UserCard
+ */
+function toComponentName(path: string): string {
+	const fileName = path.split('/').pop() ?? path;
+	return fileName.replace(/\.[^.]+$/, '');
+}
+
+/**
+ * Creates an injector with its own registry, index counter and components store.
  *
- * @example
- * import Component from "src/Component.svelte"
+ * Useful when several apps share the same page (es: micro-frontends): each injector only hydrates and renders its own components.
+ * Render them with `<InjectedComponents injector={injector} />`.
  *
- * this.svelteChild = await SvelteInjector.create(this.$element[0], Component, props, options);
+ * The named exports of this module use the {@link defaultInjector}.
+ *
+ * @example
+ * const injector = createInjector();
+ * injector.registerComponent('hello', Hello);
+ * await injector.hydrate(document.getElementById('checkout'));
  *
- * @param domElement - The element in which the component will be rendered
- * @param component - the svelte component Class or the link name (as previously registered with {@link registerComponent})
- * @param props - An object with props compatible with the Svelte Component
- * @param toRender = true - Boolean that indicates if the component should render immediately
  * @param options - Object with options, optional
- * @return - A promise that resolves the {@link SvelteElement} when the component is mounted or created (when toRender = false)
  */
-export async function create<T extends SvelteComponent, L extends string = string>(
-	domElement: HTMLElement,
-	component: ComponentType<T> | L,
-	props: ComponentProps<T>,
-	toRender = true,
-	options = {} as CreateOptions
-): Promise<SvelteElement<T>> {
-	const baseElement = await createBaseElement<T, L>(domElement, component, props, toRender);
-	const svelteElement = await enhanceBaseElement<T>(baseElement, sanitizeOptions(options));
-	if (!svelteElement) return Promise.reject();
+export function createInjector(
+	{ id = Math.random().toString(36).slice(2, 10) } = {} as InjectorOptions
+) {
+	const links: Record<string, SvelteLink> = {};
+	const eventHandlers: EventHandlers = {};
+	const contexts: Record<string, Context> = {};
+	const pendingHydrations = new WeakMap<HTMLElement, PendingHydration>();
+	const loadingStatuses = new WeakMap<HTMLElement, SvelteComponent>();
+	const outros = new WeakMap<SvelteElement, Promise<void>>();
+	const toRenderRequests = new WeakMap<SvelteElement, boolean>();
+	// Elements nested in a hidden element: their placeholders leave the document with it
+	const hiddenDescendants = new WeakMap<SvelteElement, SvelteElement[]>();
+	const keptElements = new WeakSet<SvelteElement>();
+	const lifecycleHandlers: Record<LifecycleHook, Set<LifecycleHandler>> = {
+		created: new Set(),
+		mounted: new Set(),
+		propsUpdated: new Set(),
+		toRenderChanged: new Set(),
+		destroyed: new Set()
+	};
+	const observers = createSharedObservers<SvelteElement>(`[${svelteIndexAttribute}]`, {
+		onRemove: (element) => {
+			if (!keptElements.has(element)) element.destroy();
+		},
+		onChange: (changes) => applyDomChanges(changes)
+	});
+	// Pending hydrations are cancelled when their placeholder is removed
+	const pendingObservers = createSharedObservers<PendingHydration>('[data-component-name]', {
+		onRemove: (pending) => cancelledHydrations.get(pending)?.abort(),
+		onChange: () => {}
+	});
+	const cancelledHydrations = new WeakMap<PendingHydration, AbortController>();
+	const components = writable([] as SvelteElement[]);
+	let lastIndex = -1;
+
+	/**
+	 * @description Link a component class or a function to a string name.
+	 * Useful to create components from the DOM template with {@link hydrate}.
+	 *
+	 * @param name - name to assign to the component or function {@link registerComponent}
+	 * @param svelteComponent - Svelte component (class in Svelte 3/4, function in Svelte 5) or an async function that returns one
+	 * @param options - Object with options, optional
+	 *
+	 * @example Props validation
+	 * registerComponent('hello', Hello, {
+	 *     schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] }
+	 * });
+	 */
+	function registerComponent<L extends string, T extends SvelteComponent>(
+		name: L,
+		svelteComponent: ComponentType<T> | (() => Promise<ComponentType<T>>),
+		options = {} as RegisterOptions
+	): void {
+		if (
+			isComponentClass<T>(svelteComponent) ||
+			isSvelte5Component(svelteComponent) ||
+			isServerComponent(svelteComponent)
+		) {
+			links[name] = { name, svelteComponent: svelteComponent as ComponentType<T>, ...options };
+		} else {
+			links[name] = {
+				name,
+				svelteComponentGetter: svelteComponent,
+				...options
+			};
+		}
+	}
 
-	const returnPromise = resolveOnMount(svelteElement);
+	/**
+	 * @description Registers every component of a record, es: the modules returned by `import.meta.glob`.
+	 * Eager modules are registered as components, lazy ones as getters. Names are the file names without extension.
+	 *
+	 * @example
+	 * registerComponents(import.meta.glob('./widgets/*.svelte')); // ./widgets/UserCard.svelte -> "UserCard"
+	 * @example Custom names
+	 * registerComponents(import.meta.glob('./widgets/*.svelte', { eager: true }), {
+	 *     toName: (path) => path.split('/').pop()!.replace('.svelte', '').toLowerCase()
+	 * });
+	 *
+	 * @param record - components, modules or functions returning them, keyed by file path
+	 * @param options - Object with options, optional. toName derives the name from the path
+	 * @return - The registered names
+	 */
+	function registerComponents(
+		record: Record<string, ComponentModule | (() => Promise<ComponentModule>)>,
+		{ toName = toComponentName, ...options } = {} as RegisterManyOptions
+	): string[] {
+		return Object.entries(record).map(([path, entry]) => {
+			const name = toName(path);
+			const component = isLazyModule(entry) ? () => entry().then(fromModule) : fromModule(entry);
+			registerComponent(name, component as ComponentType, options);
+			return name;
+		});
+	}
 
-	addComponents([svelteElement]);
+	/**
+	 * @description Removes a component from the registry. Elements already created keep their component.
+	 *
+	 * @param name - name of the component as previously registered with {@link registerComponent}
+	 */
+	function unregisterComponent(name: string): void {
+		delete links[name];
+	}
 
-	return returnPromise;
-}
+	/**
+	 * @return - The names of the registered components
+	 */
+	function getRegisteredNames(): string[] {
+		return Object.keys(links);
+	}
 
-async function createBaseElement<T extends SvelteComponent, L extends string = string>(
-	domElement: HTMLElement,
-	Component: ComponentType<T> | L,
-	props: ComponentProps<T>,
-	toRender: boolean
-): Promise<SvelteBaseElement<T>> {
-	let componentClass;
+	/**
+	 * @description Replaces a registered component, and the component of every live element created from it.
+	 * Elements keep their props, the components are recreated. Useful for hot module replacement.
+	 *
+	 * @example
+	 * import.meta.hot?.accept('./Hello.svelte', (module) => module && replaceComponent('hello', module.default));
+	 *
+	 * @param name - name of the component as previously registered with {@link registerComponent}
+	 * @param svelteComponent - the new Svelte component
+	 * @return - A promise that resolves the updated elements
+	 */
+	async function replaceComponent<T extends SvelteComponent>(
+		name: string,
+		svelteComponent: ComponentType<T>
+	): Promise<SvelteElement[]> {
+		links[name] = {
+			...links[name],
+			name,
+			svelteComponent: svelteComponent as ComponentType,
+			svelteComponentGetter: undefined
+		};
 
-	if (typeof Component === 'string') {
-		const foundComponent = await findComponentByName<T, L>(Component);
-		if (!foundComponent) return Promise.reject();
-		componentClass = foundComponent;
-	} else {
-		componentClass = Component;
+		const elements = get(components).filter((element) => element.name === name);
+		for (const element of elements) {
+			element.Component = svelteComponent as ComponentType;
+			element.error = undefined;
+		}
+		await updateComponents(elements);
+		return elements;
 	}
 
-	const index = extractIndexOrCreateNew(domElement);
+	/**
+	 * @description Link an event handler to a string name.
+	 * Useful to listen to component events from the DOM template with {@link hydrate}.
+	 *
+	 * @example
+	 * registerEventHandler('logSave', (event) => console.log(event.detail));
+	 *
+	 * <div data-component-name="hello" data-on-save="logSave"></div>
+	 *
+	 * @param name - name to assign to the handler
+	 * @param handler - function called with the component event
+	 */
+	function registerEventHandler(name: string, handler: EventHandler): void {
+		eventHandlers[name] = handler;
+	}
 
-	return {
-		domElement,
-		Component: componentClass as ComponentType<T>,
-		props,
-		toRender,
-		index
-	};
-}
+	/**
+	 * @description Link a context to a string name.
+	 * Useful to give hydrated components their own context with the data-context attribute.
+	 *
+	 * @example
+	 * registerContext('tenantA', new Map([['tenant', tenantStore]]));
+	 *
+	 * <div data-component-name="hello" data-context="tenantA"></div>
+	 *
+	 * @param name - name to assign to the context
+	 * @param context - Map of the context entries, merged over the context of InjectedComponents
+	 */
+	function registerContext(name: string, context: Context): void {
+		contexts[name] = context;
+	}
 
-async function setProps<T extends SvelteComponent>(
-	component: SvelteElement<T>,
-	props: ComponentProps<T>
-) {
-	component.props = props;
-	await updateComponent(component);
-}
+	/**
+	 * @description Calls the handler when an element is created by {@link create} or {@link hydrate}, before it mounts.
+	 * Useful for telemetry: the event has the element, its registered name and its timing.
+	 *
+	 * @example
+	 * onElementCreated(({ name, timing }) => analytics.track('svelte-element', { name, loadTime: timing.loadTime }));
+	 *
+	 * @param handler - function called with the {@link LifecycleEvent}
+	 * @return - A function removing the handler
+	 */
+	function onElementCreated(handler: LifecycleHandler): () => void {
+		return addLifecycleHandler('created', handler);
+	}
 
-async function setToRender(component: SvelteElement, toRender: boolean) {
-	if (component.toRender !== toRender) {
-		component.toRender = toRender;
-		await updateComponent(component);
+	/**
+	 * @description Calls the handler when the component of an element is mounted, es: after its creation or when it renders again.
+	 *
+	 * @example
+	 * onElementMounted(({ name, timing }) => console.log(name, 'mounted in', timing.mountDelay, 'ms'));
+	 *
+	 * @param handler - function called with the {@link LifecycleEvent}
+	 * @return - A function removing the handler
+	 */
+	function onElementMounted(handler: LifecycleHandler): () => void {
+		return addLifecycleHandler('mounted', handler);
 	}
-}
 
-function createObservers(svelteElement: SvelteElement): MutationObserver[] {
-	const observers = [];
-	if (svelteElement.options.observeParents) {
-		observers.push(createRemoveObserver(svelteElement));
+	/**
+	 * @description Calls the handler when the props of an element are replaced, with updateProps or from the DOM.
+	 *
+	 * @param handler - function called with the {@link LifecycleEvent}
+	 * @return - A function removing the handler
+	 */
+	function onPropsUpdated(handler: LifecycleHandler): () => void {
+		return addLifecycleHandler('propsUpdated', handler);
 	}
-	if (svelteElement.options.observe) {
-		observers.push(createDataObserver(svelteElement));
+
+	/**
+	 * @description Calls the handler when an element is shown or hidden, with setToRender or from the DOM.
+	 *
+	 * @param handler - function called with the {@link LifecycleEvent}
+	 * @return - A function removing the handler
+	 */
+	function onToRenderChanged(handler: LifecycleHandler): () => void {
+		return addLifecycleHandler('toRenderChanged', handler);
+	}
+
+	/**
+	 * @description Calls the handler when an element is destroyed.
+	 *
+	 * @param handler - function called with the {@link LifecycleEvent}
+	 * @return - A function removing the handler
+	 */
+	function onElementDestroyed(handler: LifecycleHandler): () => void {
+		return addLifecycleHandler('destroyed', handler);
 	}
-	return observers;
-}
 
-function createRemoveObserver(svelteElement: SvelteElement): MutationObserver {
-	const observer = new MutationObserver(() => {
-		if (!document.body.contains(svelteElement.domElement)) {
-			svelteElement.destroy();
+	function addLifecycleHandler(hook: LifecycleHook, handler: LifecycleHandler): () => void {
+		lifecycleHandlers[hook].add(handler);
+		return () => {
+			lifecycleHandlers[hook].delete(handler);
+		};
+	}
+
+	/**
+	 * Errors thrown by handlers are logged: telemetry can't break the components.
+	 */
+	function emit(hook: LifecycleHook, element: SvelteElement) {
+		for (const handler of lifecycleHandlers[hook]) {
+			try {
+				handler({ element, name: element.name, timing: element.timing });
+			} catch (error) {
+				console.error(`Lifecycle handler "${hook}" failed:`, error);
+			}
 		}
-	});
+	}
 
-	if (svelteElement.domElement.parentNode) {
-		observer.observe(svelteElement.domElement.parentNode, { childList: true });
+	/**
+	 * Creates a single element at the bottom of an HTML element by component class or link name.
+	 *
+	 * @example
+	 * import Component from "src/Component.svelte"
+	 *
+	 * this.svelteChild = await SvelteInjector.create(this.$element[0], Component, props, options);
+	 *
+	 * @param domElement - The element in which the component will be rendered
+	 * @param component - the svelte component Class or the link name (as previously registered with {@link registerComponent})
+	 * @param props - An object with props compatible with the Svelte Component
+	 * @param toRender = true - Boolean that indicates if the component should render immediately
+	 * @param options - Object with options, optional
+	 * @return - A promise that resolves the {@link SvelteElement} when the component is mounted or created (when toRender = false)
+	 */
+	async function create<T extends SvelteComponent, L extends string = string>(
+		domElement: HTMLElement,
+		component: ComponentType<T> | L,
+		props: ComponentProps<T>,
+		toRender = true,
+		options = {} as CreateOptions
+	): Promise<SvelteElement<T>> {
+		const baseElement = await createBaseElement<T, L>(
+			domElement,
+			component,
+			props,
+			toRender,
+			options.slots
+		);
+		const svelteElement = await enhanceBaseElement<T>(baseElement, sanitizeOptions(options));
+		if (!svelteElement) return Promise.reject();
+
+		const returnPromise = resolveOnMount(svelteElement);
+
+		addComponents([svelteElement]);
+
+		return returnPromise;
 	}
 
-	return observer;
-}
+	async function createBaseElement<T extends SvelteComponent, L extends string = string>(
+		domElement: HTMLElement,
+		Component: ComponentType<T> | L,
+		props: ComponentProps<T>,
+		toRender: boolean,
+		slots: Slots = {}
+	): Promise<SvelteBaseElement<T>> {
+		const timing: ElementTiming = { createdAt: now(), loadTime: 0 };
+		let componentClass;
+		let name;
+
+		if (typeof Component === 'string') {
+			const loaded = !!links[Component]?.svelteComponent;
+			const foundComponent = await loadComponent<T, L>(Component, domElement, true);
+			if (!foundComponent) return Promise.reject();
+			if (!loaded) timing.loadTime = now() - timing.createdAt;
+			componentClass = foundComponent;
+			name = Component;
+		} else {
+			componentClass = Component;
+			name = findRegisteredComponentNameByClass(Component);
+		}
 
-function createDataObserver(svelteElement: SvelteElement): MutationObserver {
-	const observer = new MutationObserver((mutations) => {
-		const haveAttributesChanged = mutations.find((m) => m.type === 'attributes');
-		const haveCharactersChanged = mutations.find((m) => {
-			if (m.type === 'characterData') return true;
-			if (m.type === 'childList') {
-				if (m.removedNodes.length !== m.addedNodes.length) return true;
-				let hasChanged = false;
-				for (let index = 0; index < m.removedNodes.length; index++) {
-					if (m.removedNodes[index].textContent !== m.addedNodes[index].textContent) {
-						hasChanged = true;
-						break;
-					}
-				}
-				return hasChanged;
+		const index = extractIndexOrCreateNew(domElement);
+
+		return {
+			domElement,
+			Component: componentClass as ComponentType<T>,
+			props,
+			toRender,
+			index,
+			name,
+			slots,
+			timing
+		};
+	}
+
+	async function setProps<T extends SvelteComponent>(
+		component: SvelteElement<T>,
+		props: ComponentProps<T>
+	) {
+		if (DEV) checkProps(component, props);
+		component.props = props;
+		await updateComponent(component);
+		emit('propsUpdated', component);
+	}
+
+	/**
+	 * Reports the props that don't match the schema registered with the component, see {@link registerComponent}
+	 */
+	function checkProps(element: SvelteBaseElement, props: Record<string, any> | undefined) {
+		const schema = element.name ? links[element.name]?.schema : undefined;
+		if (!schema) return;
+
+		const issues =
+			props && typeof props === 'object'
+				? validate(schema, props)
+				: [{ path: '', message: `expected object, found ${props}` }];
+		if (!issues.length) return;
+
+		console.error(
+			`Invalid props for component "${element.name}":\n`,
+			element.domElement,
+			'\n' + issues.map((issue) => `${issue.path || '(props)'}: ${issue.message}`).join('\n')
+		);
+	}
+
+	/**
+	 * The outro is played before the component is removed. Kept alive components are only detached.
+	 */
+	async function setToRender(component: SvelteElement, toRender: boolean) {
+		toRenderRequests.set(component, toRender);
+		if (!toRender && component.toRender) keepDescendants(component);
+		if (!toRender && component.toRender && !component.options.keepAlive) {
+			await playOutro(component);
+			// Rendered again during the outro: the instance is recreated
+			if (toRenderRequests.get(component)) {
+				await retry(component);
+				return releaseDescendants(component);
 			}
-			return false;
-		});
-		if (haveAttributesChanged) {
-			svelteElement.setToRender(extractToRender(svelteElement.domElement));
 		}
-		if (haveCharactersChanged) {
-			svelteElement.updateProps(extractProps(svelteElement.domElement));
+
+		if (component.toRender !== toRender) {
+			component.toRender = toRender;
+			await updateComponent(component);
+			if (toRender) await releaseDescendants(component);
+			emit('toRenderChanged', component);
 		}
-	});
+	}
 
-	observer.observe(svelteElement.domElement, { attributeFilter: ['data-to-render'] });
+	/**
+	 * The elements nested in a hidden element (es: in its slots) are kept while their placeholders are out of the document.
+	 */
+	function keepDescendants(component: SvelteElement) {
+		if (hiddenDescendants.has(component)) return;
 
-	const propsElement = getPropsElement(svelteElement.domElement);
-	if (propsElement?.content) {
-		observer.observe(propsElement.content, { characterData: true, subtree: true, childList: true });
+		const descendants = get(components).filter(
+			(element) => element !== component && component.domElement.contains(element.domElement)
+		);
+		for (const descendant of descendants) keptElements.add(descendant);
+		hiddenDescendants.set(component, descendants);
 	}
 
-	return observer;
-}
+	/**
+	 * Once the element is rendered again, its placeholders are back in the document.
+	 */
+	async function releaseDescendants(component: SvelteElement) {
+		await tick();
+		// Hidden again while rendering
+		if (component.toRender) dropDescendants(component);
+	}
 
-/**
- * Hydrates every SvelteElements found querying the target.
- *
- * @example
- *    this.svelteChildren = await SvelteInjector.hydrate(document.body);
- * @example Component format
- * <div data-component-name="hello">
- *     <template class="props"">
- *         // JSON formatted
- *         {"name": "hello"}
- *     </template>
- * </div>
- * @example Utility
- *  <div data-component-name="hello">
- *     {writeProps(
- *     		{name: "hello"}
- *     )}
- * </div>
- * @example Conditional rendering
- * // You can use {data-to-render} as the condition in an {#if}
- * <div data-component-name="hello" data-to-render"true">
- *     <template class="props"">
- *         // JSON formatted
- *         {"name": "hello"}
- *     </template>
- * </div>
- *
- * @param domTarget - The DOM Element that will be queried for Svelte Components to create
- * @param options - Object with options, optional
- *
- * @return - An array of promises that resolve each {@link SvelteElement} when the component is mounted or created (when toRender = false)
- */
-export async function hydrate(
-	domTarget: HTMLElement,
-	options = {} as HydrateOptions
-): Promise<SvelteElement[]> {
-	const svelteElements = Array.from(
-		domTarget.querySelectorAll<HTMLElement>('[data-component-name]')
-	);
+	/**
+	 * Destroys the kept descendants whose placeholders are not in the document, es: rendered by the previous instance.
+	 */
+	function dropDescendants(component: SvelteElement) {
+		const descendants = hiddenDescendants.get(component) ?? [];
+		hiddenDescendants.delete(component);
+		for (const descendant of descendants) {
+			keptElements.delete(descendant);
+			if (!descendant.domElement.isConnected) descendant.destroy();
+		}
+	}
 
-	if (!svelteElements || !svelteElements.length) return [];
+	async function setContext(component: SvelteElement, context: Context) {
+		component.context = context;
+		await updateComponent(component);
+	}
 
-	const parsedElements = await Promise.allSettled(
-		svelteElements.map((element) => parseElement(element))
-	);
-	const successfulElements = [];
+	async function setEventHandlers(component: SvelteElement, on: EventHandlers) {
+		component.on = on;
+		await updateComponent(component);
+	}
 
-	for (const parsedElement of parsedElements) {
-		if (parsedElement.status === 'fulfilled') {
-			successfulElements.push(parsedElement.value);
+	/**
+	 * Moves the instance to another node, keeping its state. The index attributes follow the element:
+	 * the props elements and attributes of the new node are observed, the previous node is left as is.
+	 */
+	async function moveElement(component: SvelteElement, domElement: HTMLElement) {
+		if (component.domElement === domElement) return null;
+		if (isHydrated(domElement)) {
+			return Promise.reject(
+				`Element with index: ${domElement.getAttribute(svelteIndexAttribute)} already created.`
+			);
 		}
+
+		const previous = component.domElement;
+		observers.unobserve(component);
+		previous.removeAttribute(svelteIndexAttribute);
+		previous.removeAttribute(svelteInjectorAttribute);
+		domElement.setAttribute(svelteIndexAttribute, component.index.toString());
+		domElement.setAttribute(svelteInjectorAttribute, id);
+
+		component.domElement = domElement;
+		if (component.instance) observeElement(component);
+		return updateComponent(component);
 	}
 
-	const createdElements = (
-		await Promise.all(
-			successfulElements.map((element) => {
-				if (!element) return null;
-				return enhanceBaseElement(element, sanitizeOptions(options)).catch(console.warn);
+	/**
+	 * Recreates the component, es: after an error. The fallback is replaced.
+	 */
+	async function retry(component: SvelteElement) {
+		component.error = undefined;
+		component.attempt++;
+		return updateComponent(component);
+	}
+
+	/**
+	 * Hydrates every SvelteElements found querying the target.
+	 *
+	 * @example
+	 *    this.svelteChildren = await SvelteInjector.hydrate(document.body);
+	 * @example Component format
+	 * <div data-component-name="hello">
+	 *     <template class="props"">
+	 *         // JSON formatted
+	 *         {"name": "hello"}
+	 *     </template>
+	 * </div>
+	 * @example Utility
+	 *  <div data-component-name="hello">
+	 *     {writeProps(
+	 *     		{name: "hello"}
+	 *     )}
+	 * </div>
+	 * @example Conditional rendering
+	 * // You can use {data-to-render} as the condition in an {#if}
+	 * <div data-component-name="hello" data-to-render"true">
+	 *     <template class="props"">
+	 *         // JSON formatted
+	 *         {"name": "hello"}
+	 *     </template>
+	 * </div>
+	 *
+	 * @param domTarget - The DOM Element that will be queried for Svelte Components to create
+	 * @param options - Object with options, optional
+	 *
+	 * @return - An array of promises that resolve each {@link SvelteElement} when the component is mounted or created (when toRender = false)
+	 */
+	async function hydrate(
+		domTarget: HTMLElement,
+		options = {} as HydrateOptions
+	): Promise<SvelteElement[]> {
+		const { elements, failures } = await hydrateWithReport(domTarget, options);
+
+		for (const failure of failures) {
+			if (failure.reason === 'already-hydrated') console.warn(failure.error);
+		}
+
+		return elements;
+	}
+
+	/**
+	 * Same as {@link hydrate}, but also returns the elements that failed to hydrate, with the reason.
+	 *
+	 * @example
+	 * const { elements, failures } = await SvelteInjector.hydrateWithReport(document.body);
+	 * for (const failure of failures) {
+	 *     monitoring.report(failure.reason, failure.componentName, failure.error);
+	 * }
+	 *
+	 * @param domTarget - The DOM Element that will be queried for Svelte Components to create
+	 * @param options - Object with options, optional
+	 *
+	 * @return - A promise that resolves the {@link HydrateReport} when all the components are mounted or created (when toRender = false)
+	 */
+	async function hydrateWithReport(
+		domTarget: HTMLElement,
+		options = {} as HydrateOptions
+	): Promise<HydrateReport> {
+		return hydrateWithStrategies(findOwnPlaceholders(domTarget), options);
+	}
+
+	function findOwnPlaceholders(domTarget: HTMLElement): HTMLElement[] {
+		return Array.from(domTarget.querySelectorAll<HTMLElement>('[data-component-name]')).filter(
+			(element) => isOwnElement(element)
+		);
+	}
+
+	/**
+	 * Hydrates a single placeholder: the placeholders nested in it are left to their own wrappers.
+	 *
+	 * @example
+	 * const element = await SvelteInjector.hydrateElement(this.$element[0].firstChild);
+	 *
+	 * @param domElement - The element with the data-component-name attribute
+	 * @param options - Object with options, optional
+	 *
+	 * @return - A promise that resolves the {@link SvelteElement} when the component is mounted (or created, when toRender = false), or rejects with an {@link HydrateFailure}
+	 */
+	async function hydrateElement(
+		domElement: HTMLElement,
+		options = {} as HydrateOptions
+	): Promise<SvelteElement> {
+		const { elements, failures, pending } = await hydrateWithStrategies([domElement], options);
+
+		if (failures.length) return Promise.reject(failures[0]);
+		return elements[0] ?? pending[0].mounted;
+	}
+
+	/**
+	 * @param signal - cancels the hydrations still waiting for their strategy
+	 */
+	async function hydrateWithStrategies(
+		svelteElements: HTMLElement[],
+		options: HydrateOptions,
+		signal?: AbortSignal
+	): Promise<HydrateReport> {
+		const immediateElements = [];
+		const pending: PendingHydration[] = [];
+
+		for (const element of svelteElements) {
+			const strategy = extractStrategy(element, options);
+			if (strategy === 'load' || isHydrated(element)) {
+				immediateElements.push(element);
+			} else {
+				pending.push(deferHydration(element, strategy, options, signal));
+			}
+		}
+
+		return { ...(await hydrateElements(immediateElements, options)), pending };
+	}
+
+	/**
+	 * Hydrates the root, then keeps watching it: placeholders are hydrated when added and destroyed when removed.
+	 *
+	 * @example
+	 * const observer = SvelteInjector.observeRoot(document.body);
+	 * $('#sidebar').load('/partials/sidebar'); // hydrated as soon as it is inserted
+	 * observer.stop();
+	 *
+	 * @param root - The DOM Element to watch
+	 * @param options - Object with options, optional. observeParents defaults to false, removals are handled by the root observer
+	 *
+	 * @return - A {@link RootObserver}
+	 */
+	function observeRoot(root: HTMLElement, options = {} as HydrateOptions): RootObserver {
+		const hydrateOptions: HydrateOptions = { observeParents: false, ...options };
+		const stopped = new AbortController();
+
+		const observer = new MutationObserver((mutations) => {
+			const addedElements = new Set<HTMLElement>();
+			const removedNodes: Node[] = [];
+
+			for (const mutation of mutations) {
+				mutation.addedNodes.forEach((node) => {
+					for (const element of findPlaceholders(node)) addedElements.add(element);
+				});
+				removedNodes.push(...Array.from(mutation.removedNodes));
+			}
+
+			// Nodes can be moved: only disconnected placeholders are destroyed
+			const removedElements = get(components).filter(
+				(element) =>
+					!element.domElement.isConnected &&
+					removedNodes.some((node) => node.contains(element.domElement))
+			);
+			destroyAll(removedElements);
+
+			const newElements = Array.from(addedElements).filter(
+				(element) => element.isConnected && isOwnElement(element) && !isHydrated(element)
+			);
+			if (newElements.length) hydrateWithStrategies(newElements, hydrateOptions, stopped.signal);
+		});
+
+		observer.observe(root, { childList: true, subtree: true });
+
+		return {
+			ready: hydrateWithStrategies(findOwnPlaceholders(root), hydrateOptions, stopped.signal),
+			stop: () => {
+				observer.disconnect();
+				stopped.abort();
+			}
+		};
+	}
+
+	async function hydrateElements(
+		svelteElements: HTMLElement[],
+		options: HydrateOptions
+	): Promise<Omit<HydrateReport, 'pending'>> {
+		if (!svelteElements.length) return { elements: [], failures: [] };
+
+		const parsedElements = await Promise.allSettled(
+			svelteElements.map((element) => parseElement(element))
+		);
+		const successfulElements = [];
+		const failures: HydrateFailure[] = [];
+
+		for (const parsedElement of parsedElements) {
+			if (parsedElement.status === 'fulfilled') {
+				successfulElements.push(parsedElement.value);
+			} else {
+				failures.push(parsedElement.reason);
+			}
+		}
+
+		const createdElements = (
+			await Promise.all(
+				successfulElements.map((element) => {
+					return enhanceBaseElement(element, sanitizeOptions(options)).catch((error) => {
+						failures.push({
+							domElement: element.domElement,
+							componentName: element.name,
+							reason: 'already-hydrated',
+							error
+						});
+						return null;
+					});
+				})
+			)
+		).filter((element) => element as SvelteElement) as SvelteElement[];
+		const promises = createdElements.map((element) => resolveOnMount(element));
+
+		addComponents(createdElements);
+
+		const mountedElements = await Promise.allSettled(promises);
+		const elements = [];
+
+		for (const [index, mountedElement] of mountedElements.entries()) {
+			if (mountedElement.status === 'fulfilled') {
+				elements.push(mountedElement.value);
+			} else {
+				failures.push({
+					domElement: createdElements[index].domElement,
+					componentName: createdElements[index].name,
+					reason: 'mount-failed',
+					error: mountedElement.reason
+				});
+			}
+		}
+
+		return { elements, failures };
+	}
+
+	/**
+	 * Waits for the strategy before loading and mounting the component.
+	 * Elements already waiting keep their first strategy.
+	 *
+	 * The hydration is cancelled when the placeholder is removed or the signal is aborted:
+	 * *mounted* rejects with the "cancelled" reason.
+	 */
+	function deferHydration(
+		domElement: HTMLElement,
+		strategy: HydrateStrategy,
+		options: HydrateOptions,
+		signal?: AbortSignal
+	): PendingHydration {
+		const alreadyPending = pendingHydrations.get(domElement);
+		if (alreadyPending) return alreadyPending;
+
+		const componentName = domElement.dataset.componentName;
+		const cancellation = new AbortController();
+		const cancel = () => cancellation.abort();
+		signal?.addEventListener('abort', cancel, { once: true });
+
+		const mounted = waitForStrategy(strategy, domElement, cancellation.signal)
+			.finally(() => {
+				pendingHydrations.delete(domElement);
+				pendingObservers.unobserve(pendingHydration);
+				signal?.removeEventListener('abort', cancel);
 			})
-		)
-	).filter((element) => element as SvelteElement) as SvelteElement[];
-	const promises = createdElements.map((element) => resolveOnMount(element));
+			.then(
+				() => hydrateElements([domElement], options),
+				(): Promise<never> => {
+					const failure: HydrateFailure = { domElement, componentName, reason: 'cancelled' };
+					return Promise.reject(failure);
+				}
+			)
+			.then(({ elements, failures }) => {
+				return failures.length ? Promise.reject(failures[0]) : elements[0];
+			});
+		// Failures are logged by the parser, callers can still handle them on the returned promise
+		mounted.catch(() => {});
+
+		const pendingHydration: PendingHydration = { domElement, componentName, strategy, mounted };
+		pendingHydrations.set(domElement, pendingHydration);
+		cancelledHydrations.set(pendingHydration, cancellation);
+		pendingObservers.observe(pendingHydration, { parents: true, data: false, propsTargets: [] });
+
+		return pendingHydration;
+	}
 
-	addComponents(createdElements);
+	function isHydrated(domElement: HTMLElement): boolean {
+		const index = domElement.getAttribute(svelteIndexAttribute);
+		return !!index && isOwnElement(domElement) && !!findElementByIndex(index);
+	}
 
-	return await Promise.all(promises);
-}
+	/**
+	 * Parses a component element from the DOM.
+	 *
+	 * @param domElement - The element with the data-component-name attribute
+	 *
+	 * @return - A promise that resolves the parsed element, or rejects with an {@link HydrateFailure}
+	 */
+	async function parseElement(domElement: HTMLElement): Promise<SvelteBaseElement> {
+		const timing: ElementTiming = { createdAt: now(), loadTime: 0 };
+		const componentName = domElement.dataset.componentName;
+		const fail = (reason: HydrateFailureReason, error?: unknown) =>
+			Promise.reject<SvelteBaseElement>({ domElement, componentName, reason, error });
+
+		if (isHydrated(domElement)) {
+			const index = domElement.getAttribute(svelteIndexAttribute);
+			return fail('already-hydrated', `Element with index: ${index} already created.`);
+		}
 
-export async function parseElement(domElement: HTMLElement): Promise<SvelteBaseElement> {
-	const componentName = domElement.dataset.componentName;
-	if (!componentName) return Promise.reject();
-	const Component = await findComponentByName(componentName);
-	if (!Component) {
-		console.error(
-			'Requested component not found. Did you link it first?',
+		if (!componentName || !links[componentName]) {
+			console.error(
+				'Requested component not found. Did you link it first?',
+				domElement,
+				componentName
+			);
+			return fail('unregistered');
+		}
+
+		let Component;
+		const loaded = !!links[componentName].svelteComponent;
+		try {
+			// Server rendered elements keep their HTML while loading
+			Component = await loadComponent(
+				componentName,
+				domElement,
+				!domElement.hasAttribute(ssrAttribute)
+			);
+		} catch (error) {
+			console.error('Could not load component:', domElement, componentName, error);
+			return fail('getter-failed', error);
+		}
+		if (!Component) return fail('getter-failed');
+		if (!loaded) timing.loadTime = now() - timing.createdAt;
+
+		// Errors are logged by the extractors
+		const props = extractProps(domElement);
+		if (!props) return fail('malformed-props');
+		const toRender = extractToRender(domElement);
+		if (toRender === undefined) return fail('malformed-to-render');
+		const on = extractEventHandlers(domElement);
+		const context = extractContext(domElement);
+
+		const index = extractIndexOrCreateNew(domElement);
+		// Server rendered children are claimed by the component, not projected in slots
+		const ssr = domElement.hasAttribute(ssrAttribute);
+		const slots = ssr ? {} : extractSlots(domElement);
+		const intro = extractIntro(domElement);
+
+		return {
 			domElement,
-			componentName
-		);
-		return Promise.reject();
+			Component,
+			props,
+			index,
+			toRender,
+			name: componentName,
+			on,
+			slots,
+			context,
+			ssr,
+			intro,
+			timing
+		};
 	}
-	const props = extractProps(domElement);
-	const toRender = extractToRender(domElement);
 
-	if (!Component || !domElement) {
-		return Promise.reject('Component or target DOM Element not found.');
+	async function enhanceBaseElement<T extends SvelteComponent>(
+		element: SvelteBaseElement<T>,
+		options: Options
+	): Promise<SvelteElement<T> | null> {
+		const alreadyCreated = findElementByIndex(element.index);
+		if (alreadyCreated) {
+			return Promise.reject(`Element with index: ${element.index} already created.`);
+		}
+
+		if (element.domElement.dataset.componentName) {
+			element.domElement.style.display = 'contents';
+		}
+
+		if (DEV) checkProps(element, element.props);
+
+		const createdElement = element as SvelteElement<T>;
+
+		createdElement.options = options;
+		createdElement.on = { ...options.on, ...element.on };
+		createdElement.slots = element.slots ?? {};
+		createdElement.context = new Map([...(options.context ?? []), ...(element.context ?? [])]);
+		createdElement.fallback = element.name ? links[element.name]?.fallback : undefined;
+		createdElement.attempt = 0;
+		createdElement.intro = element.intro ?? options.intro ?? false;
+		createdElement.timing = element.timing ?? { createdAt: now(), loadTime: 0 };
+
+		createdElement.onMount = () => {
+			createdElement.error = undefined;
+			createdElement.timing.mountDelay ??= now() - createdElement.timing.createdAt;
+			observeElement(createdElement);
+			emit('mounted', createdElement);
+		};
+		createdElement.onError = (error) => {
+			createdElement.error = error;
+			console.error('Component failed:', createdElement.name, createdElement.domElement, error);
+			createdElement.options.onError?.(error, createdElement);
+		};
+		createdElement.onPropsChange = (key, value) => {
+			createdElement.props = { ...createdElement.props, [key]: value };
+			createdElement.options.onPropsChange?.(key, value);
+		};
+		createdElement.destroy = () => {
+			return destroyElement(createdElement);
+		};
+		createdElement.updateProps = (props) => {
+			return setProps(createdElement, props);
+		};
+		createdElement.setToRender = (toRender: boolean) => {
+			return setToRender(createdElement, toRender);
+		};
+		createdElement.updateContext = (context) => {
+			return setContext(createdElement, context);
+		};
+		createdElement.updateEventHandlers = (on) => {
+			return setEventHandlers(createdElement, on);
+		};
+		createdElement.retry = () => {
+			return retry(createdElement);
+		};
+		createdElement.moveTo = (domElement) => {
+			return moveElement(createdElement, domElement);
+		};
+
+		return createdElement;
 	}
 
-	const index = extractIndexOrCreateNew(domElement);
+	/**
+	 * Plays the outro of the rendered instance once: destroy and setToRender wait for the same one.
+	 * Components removed from the document are not animated.
+	 */
+	function playOutro(component: SvelteElement): Promise<void> {
+		const { instance, toRender, domElement } = component;
+		if (!instance || !toRender || !domElement.isConnected) return Promise.resolve();
+
+		let outro = outros.get(component);
+		if (!outro) {
+			outro = transitionOut(instance)
+				.catch((error) => console.error('Outro failed:', component.name, domElement, error))
+				.finally(() => outros.delete(component));
+			outros.set(component, outro);
+		}
+		return outro;
+	}
 
-	return {
-		domElement,
-		Component,
-		props,
-		index,
-		toRender
-	};
-}
+	function observeElement(element: SvelteElement) {
+		observers.observe(element, {
+			parents: element.options.observeParents,
+			data: element.options.observe,
+			propsTargets: getPropsTargets(element.domElement)
+		});
+	}
+
+	function findElementByIndex(
+		index: string | number,
+		currentComponents = get(components)
+	): SvelteElement | null {
+		const element = currentComponents.find(
+			(component) => component.index.toString() === index.toString()
+		);
+		return element ?? null;
+	}
 
-async function enhanceBaseElement<T extends SvelteComponent>(
-	element: SvelteBaseElement<T>,
-	options: Options
-): Promise<SvelteElement<T> | null> {
-	const alreadyCreated = findElementByIndex(element.index);
-	if (alreadyCreated) {
-		return Promise.reject(`Element with index: ${element.index} already created.`);
+	function extractIndexOrCreateNew(domElement: HTMLElement) {
+		const targetIndex = domElement.getAttribute(svelteIndexAttribute);
+		let index: number;
+		if (targetIndex && isOwnElement(domElement)) {
+			index = Number.parseInt(targetIndex);
+		} else {
+			index = ++lastIndex;
+			domElement.setAttribute(svelteIndexAttribute, index.toString());
+			domElement.setAttribute(svelteInjectorAttribute, id);
+		}
+		return index;
 	}
 
-	if (element.domElement.dataset.componentName) {
-		element.domElement.style.display = 'contents';
+	/**
+	 * Elements indexed by another injector (es: another bundle on the same page) are left to it.
+	 */
+	function isOwnElement(domElement: HTMLElement): boolean {
+		const owner = domElement.getAttribute(svelteInjectorAttribute);
+		return !owner || owner === id;
 	}
 
-	const createdElement = element as SvelteElement<T>;
+	/**
+	 * Finds a component class from the registered name.
+	 *
+	 * Component must have been previously registered with {@link registerComponent}
+	 *
+	 * @param name - name of the component as previously registered with {@link registerComponent}
+	 */
+	async function findComponentByName<T extends SvelteComponent, L extends string = string>(
+		name: L
+	): Promise<ComponentType<T> | undefined> {
+		const link = links[name] as SvelteLink<L, T>;
+		if (!link?.svelteComponent && link?.svelteComponentGetter) {
+			const getter = link.svelteComponentGetter;
+			link.pending ??= loadWithRetries(getter, link).finally(() => (link.pending = undefined));
+			const component = await link.pending;
+			// A component replaced while loading is kept
+			link.svelteComponent ??= component;
+		}
+		return link?.svelteComponent as ComponentType<T>;
+	}
 
-	createdElement.options = options;
+	/**
+	 * Finds the component like {@link findComponentByName}, showing the loading component of the link in the element
+	 * while its lazy getter is pending, and its error component if every attempt failed.
+	 */
+	async function loadComponent<T extends SvelteComponent, L extends string = string>(
+		name: L,
+		domElement: HTMLElement,
+		showStatus: boolean
+	): Promise<ComponentType<T> | undefined> {
+		const link = links[name];
+		if (!showStatus || !link || link.svelteComponent) return findComponentByName<T, L>(name);
+
+		setLoadingStatus(domElement, link.loading, { name });
+		try {
+			const component = await findComponentByName<T, L>(name);
+			setLoadingStatus(domElement);
+			return component;
+		} catch (error) {
+			setLoadingStatus(domElement, link.error, { name, error });
+			throw error;
+		}
+	}
 
-	createdElement.onMount = () => {
-		createdElement.observers = createObservers(createdElement);
-	};
-	createdElement.destroy = () => {
-		return destroyElement(createdElement);
-	};
-	createdElement.updateProps = (props) => {
-		return setProps(createdElement, props);
-	};
-	createdElement.setToRender = (toRender: boolean) => {
-		return setToRender(createdElement, toRender);
-	};
+	function setLoadingStatus(
+		domElement: HTMLElement,
+		Component?: ComponentType,
+		props: Record<string, unknown> = {}
+	) {
+		loadingStatuses.get(domElement)?.$destroy();
+		loadingStatuses.delete(domElement);
+		if (Component) loadingStatuses.set(domElement, mountStatic(Component, domElement, props));
+	}
 
-	return createdElement;
-}
+	/**
+	 * Starts loading lazy components before they are needed, es: ahead of a navigation.
+	 * Failures are logged, the components are loaded again when needed.
+	 *
+	 * @example
+	 * link.addEventListener('pointerenter', () => preloadComponents(['checkout', 'cart']));
+	 *
+	 * @param names - names of the components as previously registered with {@link registerComponent}. Every lazy component by default
+	 * @return - A promise that resolves when every component is loaded or failed
+	 */
+	async function preloadComponents(names = Object.keys(links)): Promise<void> {
+		await Promise.all(
+			names.map((name) =>
+				findComponentByName(name).catch((error) =>
+					console.error('Could not preload component:', name, error)
+				)
+			)
+		);
+	}
 
-function findElementByIndex(
-	index: string | number,
-	currentComponents = get(components)
-): SvelteElement | null {
-	const element = currentComponents.find(
-		(component) => component.index.toString() === index.toString()
-	);
-	return element ?? null;
-}
+	/**
+	 * Finds a component name from the registered Class.
+	 *
+	 * Component must have been previously registered with {@link registerComponent} and instantiated at least once.
+	 *
+	 * @param Class - component Class as previously registered with {@link registerComponent}
+	 */
+	function findRegisteredComponentNameByClass<T extends SvelteComponent, L extends string>(
+		Class: ComponentType<T>
+	): L | undefined {
+		return Array.from(Object.keys(links)).find((name) => links[name].svelteComponent === Class) as
+			| L
+			| undefined;
+	}
 
-function extractIndexOrCreateNew(domElement: HTMLElement) {
-	const targetIndex = domElement.getAttribute(svelteIndexAttribute);
-	let index: number;
-	if (targetIndex) {
-		index = Number.parseInt(targetIndex);
-	} else {
-		index = ++lastIndex;
-		domElement.setAttribute(svelteIndexAttribute, index.toString());
+	/**
+	 * Resolves when the outro is finished, see {@link playOutro}
+	 */
+	async function destroyElement(component: SvelteElement): Promise<void> {
+		observers.unobserve(component);
+		await playOutro(component);
+		dropDescendants(component);
+
+		return new Promise((resolve) => {
+			let destroyed = false;
+			components.update((components) => {
+				const index = components.indexOf(component);
+				if (index !== -1) {
+					components.splice(index, 1);
+					destroyed = true;
+				}
+				return components;
+			});
+			if (destroyed) emit('destroyed', component);
+			resolve();
+		});
 	}
-	return index;
-}
 
-function resolveOnMount<T extends SvelteComponent>(
-	element: SvelteElement<T>
-): Promise<SvelteElement<T>> {
-	return new Promise((resolve) => {
-		if (!element.toRender) {
-			return resolve(element);
+	/**
+	 * Destroys all components in the array
+	 * @param components - An array of Svelte components to be destroyed
+	 *
+	 * @example
+	 * SvelteInjector.destroyAll(this.svelteChildren);
+	 */
+	async function destroyAll(components: SvelteElement[]) {
+		const promises: any[] = [];
+		for (const component of components) {
+			promises.push(component.destroy());
 		}
+		await Promise.all(promises);
+	}
 
-		const previousOnMount = element.onMount;
-		element.onMount = () => {
-			previousOnMount();
-			resolve(element);
-		};
-	});
-}
+	/**
+	 * Destroys the elements whose DOM element is no longer in the document (es: removed while not observed).
+	 *
+	 * @example
+	 * const remaining = await SvelteInjector.clean();
+	 *
+	 * @return - A promise that resolves the number of elements left
+	 */
+	async function clean(): Promise<number> {
+		const orphans = get(components).filter(
+			(component) => !component.domElement.isConnected && !keptElements.has(component)
+		);
+		await destroyAll(orphans);
+		return get(components).length;
+	}
 
-/**
- * Finds a component class from the registered name.
- *
- * Component must have been previously registered with {@link registerComponent}
- *
- * @param name - name of the component as previously registered with {@link registerComponent}
- */
-export async function findComponentByName<T extends SvelteComponent, L extends string = string>(
-	name: L
-): Promise<ComponentType<T> | undefined> {
-	const link = links[name] as SvelteLink<L, T>;
-	let component = link?.svelteComponent;
-	if (!component && link?.svelteComponentGetter) {
-		component = await link.svelteComponentGetter();
-		link.svelteComponent = component;
+	/**
+	 * Lists the live elements, es: to debug which component is rendered where and with which props.
+	 *
+	 * @example
+	 * console.table(SvelteInjector.inspect().map(({ index, name, props }) => ({ index, name, props })));
+	 */
+	function inspect(): InspectedElement[] {
+		return get(components).map((element) => ({
+			index: element.index,
+			name: element.name ?? findRegisteredComponentNameByClass(element.Component),
+			props: element.props,
+			toRender: element.toRender,
+			domElement: element.domElement,
+			element
+		}));
 	}
-	return component as ComponentType<T>;
-}
 
-/**
- * Finds a component name from the registered Class.
- *
- * Component must have been previously registered with {@link registerComponent} and instantiated at least once.
- *
- * @param Class - component Class as previously registered with {@link registerComponent}
- */
-export function findRegisteredComponentNameByClass<T extends SvelteComponent, L extends string>(
-	Class: ComponentType<T>
-): L | undefined {
-	return Array.from(Object.keys(links)).find((name) => links[name].svelteComponent === Class) as
-		| L
-		| undefined;
-}
-
-function destroyElement(component: SvelteElement) {
-	return new Promise((resolve) => {
-		if (component.observers) {
-			// Disconnect observers
-			for (const observer of component.observers) {
-				observer.disconnect();
-			}
+	/**
+	 * Finds the element rendered in a DOM node or in one of its ancestors, or the element with the given index.
+	 *
+	 * @example
+	 * const element = SvelteInjector.findElement(document.activeElement);
+	 *
+	 * @param target - DOM node inside the element, or index of the element
+	 */
+	function findElement(target: Node | number): SvelteElement | null {
+		if (typeof target === 'number') return findElementByIndex(target);
+
+		const currentComponents = get(components);
+		let node: Node | null = target;
+		while (node) {
+			const element = currentComponents.find((component) => component.domElement === node);
+			if (element) return element;
+			// Components can be rendered in shadow roots
+			node = node.parentNode ?? (node as ShadowRoot).host ?? null;
 		}
+		return null;
+	}
+
+	function addComponents(elements: SvelteElement[]) {
+		const addedElements: SvelteElement[] = [];
 		components.update((components) => {
-			const index = components.indexOf(component);
-			components.splice(index, 1);
+			for (const element of elements) {
+				const alreadyAdded = findElementByIndex(element.index, components);
+				if (!alreadyAdded) {
+					components.push(element);
+					addedElements.push(element);
+				}
+			}
 			return components;
 		});
-		resolve(undefined);
-	});
-}
+		for (const element of addedElements) emit('created', element);
+	}
 
-/**
- * Destroys all components in the array
- * @param components - An array of Svelte components to be destroyed
- *
- * @example
- * SvelteInjector.destroyAll(this.svelteChildren);
- */
-export async function destroyAll(components: SvelteElement[]) {
-	const promises: any[] = [];
-	for (const component of components) {
-		promises.push(component.destroy());
+	function updateComponent(element: SvelteElement): Promise<null> {
+		return updateComponents([element]);
 	}
-	await Promise.all(promises);
-}
 
-async function clean(): Promise<number> {
-	return new Promise((resolve) => {
-		const unsubscribe = components.subscribe(async (components) => {
-			const orphans = components.filter(
-				(component) => !document.body.contains(component.domElement)
-			);
-			await destroyAll(orphans);
-			resolve(components.length);
+	function updateComponents(elements: SvelteElement[]): Promise<null> {
+		return new Promise((resolve) => {
+			components.update((components) => {
+				for (const element of elements) {
+					const index = components.indexOf(element);
+					if (index !== -1) components[index] = element;
+				}
+				resolve(null);
+				return components;
+			});
 		});
-		unsubscribe();
-	});
-}
+	}
 
-function addComponents(elements: SvelteElement[]) {
-	components.update((components) => {
-		for (const element of elements) {
-			const alreadyAdded = findElementByIndex(element.index, components);
-			if (!alreadyAdded) {
-				components.push(element);
+	/**
+	 * Applies the placeholder changes of a frame with a single store update.
+	 */
+	function applyDomChanges(changes: Map<SvelteElement, MutationRecord[]>) {
+		const changedElements = [];
+		const events: [LifecycleHook, SvelteElement][] = [];
+
+		for (const [element, mutations] of changes) {
+			let hasChanged = false;
+
+			if (hasToRenderChanged(mutations)) {
+				// Errors are logged by the extractors, malformed values are ignored
+				const toRender = extractToRender(element.domElement);
+				if (toRender !== undefined && toRender !== element.toRender) {
+					// Not batched: the outro is played before hiding
+					setToRender(element, toRender);
+				}
+			}
+			if (havePropsChanged(mutations)) {
+				const props = extractProps(element.domElement);
+				if (props) {
+					if (DEV) checkProps(element, props);
+					element.props = props;
+					hasChanged = true;
+					events.push(['propsUpdated', element]);
+				}
 			}
+
+			if (hasChanged) changedElements.push(element);
 		}
-		return components;
-	});
+
+		if (changedElements.length) updateComponents(changedElements);
+		for (const [hook, element] of events) emit(hook, element);
+	}
+
+	/**
+	 * Counts the live elements, after destroying the orphans (see {@link clean}).
+	 */
+	async function getComponentsNumber(): Promise<number> {
+		const currentComponents = get(components);
+		if (currentComponents.length > 0) {
+			return await clean();
+		}
+
+		return 0;
+	}
+
+	function extractEventHandlers(svelteElement: HTMLElement): EventHandlers {
+		const handlers: EventHandlers = {};
+
+		for (const attribute of Array.from(svelteElement.attributes)) {
+			if (!attribute.name.startsWith(eventAttributePrefix)) continue;
+
+			const event = attribute.name.slice(eventAttributePrefix.length);
+			const handler = findEventHandlerByName(attribute.value);
+			if (!handler) {
+				console.error(
+					'Requested event handler not found. Did you register it first?',
+					svelteElement,
+					attribute.value
+				);
+				continue;
+			}
+			handlers[event] = handler;
+		}
+
+		return handlers;
+	}
+
+	function findEventHandlerByName(name: string): EventHandler | undefined {
+		const handler = eventHandlers[name] ?? (globalThis as Record<string, any>)[name];
+		return typeof handler === 'function' ? handler : undefined;
+	}
+
+	function extractContext(svelteElement: HTMLElement): Context | undefined {
+		const name = svelteElement.getAttribute(contextAttribute);
+		if (!name) return undefined;
+
+		const context = contexts[name] ?? (globalThis as Record<string, any>)[name];
+		if (!(context instanceof Map)) {
+			console.error('Requested context not found. Did you register it first?', svelteElement, name);
+			return undefined;
+		}
+
+		return context;
+	}
+
+	return {
+		id,
+		components,
+		registerComponent,
+		registerComponents,
+		unregisterComponent,
+		getRegisteredNames,
+		replaceComponent,
+		registerEventHandler,
+		registerContext,
+		create,
+		hydrate,
+		hydrateWithReport,
+		hydrateElement,
+		observeRoot,
+		parseElement,
+		findComponentByName,
+		findRegisteredComponentNameByClass,
+		preloadComponents,
+		destroyAll,
+		clean,
+		getComponentsNumber,
+		inspect,
+		findElement,
+		onElementCreated,
+		onElementMounted,
+		onPropsUpdated,
+		onToRenderChanged,
+		onElementDestroyed
+	};
 }
 
-function updateComponent(element: SvelteElement): Promise<null> {
-	return updateComponents([element]);
+export type Injector = ReturnType<typeof createInjector>;
+
+/**
+ * Injector used by the named exports, and by `<InjectedComponents />` when no injector is given.
+ */
+export const defaultInjector = createInjector();
+
+export const {
+	registerComponent,
+	registerComponents,
+	unregisterComponent,
+	getRegisteredNames,
+	replaceComponent,
+	registerEventHandler,
+	registerContext,
+	create,
+	hydrate,
+	hydrateWithReport,
+	hydrateElement,
+	observeRoot,
+	parseElement,
+	findComponentByName,
+	findRegisteredComponentNameByClass,
+	preloadComponents,
+	destroyAll,
+	clean,
+	getComponentsNumber,
+	inspect,
+	findElement,
+	onElementCreated,
+	onElementMounted,
+	onPropsUpdated,
+	onToRenderChanged,
+	onElementDestroyed
+} = defaultInjector;
+
+function hasToRenderChanged(mutations: MutationRecord[]): boolean {
+	return mutations.some((m) => m.type === 'attributes' && m.attributeName === toRenderAttribute);
 }
 
-function updateComponents(elements: SvelteElement[]): Promise<null> {
-	return new Promise((resolve) => {
-		components.update((components) => {
-			for (const element of elements) {
-				const index = components.indexOf(element);
-				components[index] = element;
-			}
-			resolve(null);
-			return components;
-		});
+function havePropsChanged(mutations: MutationRecord[]): boolean {
+	return mutations.some((m) => {
+		if (m.type === 'attributes') return isPropAttribute(m.attributeName);
+		if (m.type === 'characterData') return true;
+		if (m.removedNodes.length !== m.addedNodes.length) return true;
+		for (let index = 0; index < m.removedNodes.length; index++) {
+			if (m.removedNodes[index].textContent !== m.addedNodes[index].textContent) return true;
+		}
+		return false;
 	});
 }
 
-async function getComponentsNumber(): Promise<number> {
-	const currentComponents = get(components);
-	if (currentComponents.length > 0) {
-		return await clean();
-	}
+function now(): number {
+	return typeof performance !== 'undefined' ? performance.now() : Date.now();
+}
+
+function resolveOnMount<T extends SvelteComponent>(
+	element: SvelteElement<T>
+): Promise<SvelteElement<T>> {
+	return new Promise((resolve, reject) => {
+		if (!element.toRender) {
+			return resolve(element);
+		}
 
-	return 0;
+		const previousOnMount = element.onMount;
+		element.onMount = () => {
+			previousOnMount();
+			resolve(element);
+		};
+		const previousOnError = element.onError;
+		element.onError = (error) => {
+			previousOnError(error);
+			reject(error);
+		};
+	});
 }
 
 /**
@@ -546,8 +1722,38 @@ export function parseProps<T extends SvelteComponent = SvelteComponent>(
 	return JSON.parse(value);
 }
 
-function getPropsElement(svelteElement: HTMLElement): HTMLTemplateElement {
-	return svelteElement.querySelector('template.props') as HTMLTemplateElement;
+/**
+ * Props blocks in merge order: JSON script first, then template.
+ * Only direct children: the blocks of nested placeholders belong to them.
+ */
+function getPropsElements(svelteElement: HTMLElement): (HTMLTemplateElement | HTMLScriptElement)[] {
+	const scriptElement = svelteElement.querySelector<HTMLScriptElement>(
+		':scope > script.props[type="application/json"]'
+	);
+	const templateElement =
+		svelteElement.querySelector<HTMLTemplateElement>(':scope > template.props');
+	return [scriptElement, templateElement].filter((element) => !!element) as (
+		| HTMLTemplateElement
+		| HTMLScriptElement
+	)[];
+}
+
+/**
+ * Nodes to observe for props changes: template contents and script elements.
+ */
+function getPropsTargets(svelteElement: HTMLElement): Node[] {
+	return getPropsElements(svelteElement).map((propsElement) =>
+		propsElement instanceof HTMLTemplateElement ? propsElement.content : propsElement
+	);
+}
+
+function isPropsElement(node: Node): boolean {
+	if (!(node instanceof Element) || !node.classList.contains('props')) return false;
+	return node instanceof HTMLTemplateElement || node instanceof HTMLScriptElement;
+}
+
+function isPropAttribute(name: string | null): boolean {
+	return !!name && (name.startsWith(propAttributePrefix) || name === propTypesAttribute);
 }
 
 function sanitizeOptions(
@@ -562,12 +1768,19 @@ function sanitizeOptions(
  *
  * @param props - props object
  * @param encode = true - apply encoding?
+ * @param format = "json" - props format, as registered with {@link registerPropsCodec}
  */
 export function generatePropsBlock<T extends SvelteComponent = SvelteComponent>(
 	props: ComponentProps<T>,
-	encode = true
+	encode = true,
+	format = defaultPropsFormat
 ): string {
-	return `<template class="props">${serializeProps(props, encode)}</template>`;
+	const formatAttribute = format === defaultPropsFormat ? '' : ` data-props-format="${format}"`;
+	let serializedProps = serializeProps(props, encode, format);
+	// Other formats may contain markup: the template content is parsed as HTML, entities are decoded
+	if (!encode && format !== defaultPropsFormat) serializedProps = escapeHtml(serializedProps);
+
+	return `<template class="props"${formatAttribute}>${serializedProps}</template>`;
 }
 
 /**
@@ -575,55 +1788,214 @@ export function generatePropsBlock<T extends SvelteComponent = SvelteComponent>(
  *
  * @param props - object
  * @param encode = true- apply encoding?
+ * @param format = "json" - props format, as registered with {@link registerPropsCodec}
  */
 export function serializeProps<T extends SvelteComponent = SvelteComponent>(
 	props: ComponentProps<T>,
-	encode = true
+	encode = true,
+	format = defaultPropsFormat
 ): string {
-	return encode ? encodeProps(props) : stringify(props);
+	const codec = propsCodecs[format];
+	if (!codec) throw new Error(`Props format "${format}" not found. Did you register it first?`);
+
+	const serializedProps = codec.serialize(props);
+	if (encode) return encodeURIComponent(serializedProps);
+	// Unencoded JSON is written in HTML: strings can't close the props block
+	return format === defaultPropsFormat ? escapeJsonMarkup(serializedProps) : serializedProps;
+}
+
+function escapeJsonMarkup(json: string): string {
+	return json.replace(/[<>&]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+function escapeHtml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
+/**
+ * Parses a string returned by {@link serializeProps}, encoded or not.
+ *
+ * @param value - serialized props
+ * @param format = "json" - props format, as registered with {@link registerPropsCodec}
+ */
+export function deserializeProps<T extends SvelteComponent = SvelteComponent>(
+	value: string,
+	format = defaultPropsFormat
+): ComponentProps<T> {
+	const codec = propsCodecs[format];
+	if (!codec) throw new Error(`Props format "${format}" not found. Did you register it first?`);
+
+	// Encoded props start with an escaped character, es: %7B for JSON objects
+	const decode = /^%[0-9A-F]{2}/i.test(value);
+	return codec.parse(decode ? decodeURIComponent(value) : value) as ComponentProps<T>;
+}
+
+/**
+ * Merges the props from all sources: JSON script block, template block, then data-prop-* attributes.
+ * Undefined when a block can't be parsed.
+ */
 function extractProps<T extends SvelteComponent = SvelteComponent>(
 	svelteElement: HTMLElement
-): ComponentProps<T> | {} {
-	const props = getPropsElement(svelteElement)?.content?.textContent?.trim();
+): ComponentProps<T> | {} | undefined {
+	let props = {};
+
+	for (const propsElement of getPropsElements(svelteElement)) {
+		const blockProps = extractBlockProps(svelteElement, propsElement);
+		if (!blockProps) return blockProps;
+		props = { ...props, ...blockProps };
+	}
+
+	return { ...props, ...extractAttributeProps(svelteElement) };
+}
+
+function extractBlockProps<T extends SvelteComponent = SvelteComponent>(
+	svelteElement: HTMLElement,
+	propsElement: HTMLTemplateElement | HTMLScriptElement
+): ComponentProps<T> | {} | undefined {
+	const props = (
+		propsElement instanceof HTMLTemplateElement ? propsElement.content : propsElement
+	)?.textContent?.trim();
 	if (!props) return {};
 
+	const format =
+		propsElement.dataset.propsFormat ?? svelteElement.dataset.propsFormat ?? defaultPropsFormat;
+	if (!propsCodecs[format]) {
+		console.error(
+			'Requested props format not found. Did you register it first?',
+			svelteElement,
+			format
+		);
+		return undefined;
+	}
+
 	let parsedProps;
 	try {
-		const decode = props.startsWith('%7B');
-		parsedProps = decode ? decodeProps(props) : parseProps(props);
+		parsedProps = deserializeProps(props, format);
 	} catch (e) {
 		console.error(
 			'Malformed props for component:\n',
 			svelteElement,
 			'found: ',
 			props,
-			'\nProps should be in valid JSON format. Make sure that all keys are surrounded by double quotes' +
-				'\nUse SvelteInjector.stringify() or SvelteInjector.encode() for automated processing'
+			`\nProps should be in valid ${format} format.` +
+				(format === defaultPropsFormat
+					? ' Make sure that all keys are surrounded by double quotes'
+					: '') +
+				'\nUse SvelteInjector.serializeProps() or SvelteInjector.generatePropsBlock() for automated processing'
 		);
 	}
 
 	return parsedProps;
 }
 
+function extractAttributeProps(svelteElement: HTMLElement): Record<string, unknown> {
+	const props: Record<string, unknown> = {};
+	const types = parsePropTypes(svelteElement.getAttribute(propTypesAttribute));
+
+	for (const attribute of Array.from(svelteElement.attributes)) {
+		if (!attribute.name.startsWith(propAttributePrefix)) continue;
+
+		const prop = toPropName(attribute.name.slice(propAttributePrefix.length));
+		try {
+			props[prop] = parsePropAttribute(attribute.value, types[prop]);
+		} catch (e) {
+			console.error(
+				'Malformed prop attribute for component:\n',
+				svelteElement,
+				'found: ',
+				attribute.name,
+				attribute.value,
+				`\nValue should be in valid ${types[prop]} format.`
+			);
+		}
+	}
+
+	return props;
+}
+
+function findPlaceholders(node: Node): HTMLElement[] {
+	if (!(node instanceof HTMLElement)) return [];
+
+	const placeholders = Array.from(node.querySelectorAll<HTMLElement>('[data-component-name]'));
+	return node.dataset.componentName ? [node, ...placeholders] : placeholders;
+}
+
+function extractStrategy(svelteElement: HTMLElement, options: HydrateOptions): HydrateStrategy {
+	const strategy = svelteElement.getAttribute(hydrateAttribute);
+	if (!strategy) return options.strategy ?? 'load';
+
+	if (!isHydrateStrategy(strategy)) {
+		console.error(
+			'Unknown hydrate strategy for component:\n',
+			svelteElement,
+			'found: ',
+			strategy,
+			'\nStrategy should be one of load, visible, idle, interaction or media:(query)'
+		);
+		return 'load';
+	}
+
+	return strategy;
+}
+
+function extractIntro(svelteElement: HTMLElement): boolean | undefined {
+	const intro = svelteElement.getAttribute(introAttribute);
+	return intro === null ? undefined : intro === 'true';
+}
+
 function extractToRender(svelteElement: HTMLElement): boolean {
-	const toRenderAttribute = svelteElement.dataset.toRender;
+	const toRenderValue = svelteElement.getAttribute(toRenderAttribute);
 
-	if (!toRenderAttribute) return true;
+	if (!toRenderValue) return true;
 
 	let toRender;
 	try {
-		toRender = JSON.parse(toRenderAttribute);
+		toRender = JSON.parse(toRenderValue);
 	} catch (e) {
 		console.error(
 			'Malformed toRender for component:\n',
 			svelteElement,
 			'found: ',
-			toRenderAttribute,
+			toRenderValue,
 			'\nToRender attribute should be just true or false. Make sure it is correctly rendered in the DOM'
 		);
 	}
 
 	return toRender;
 }
+
+/**
+ * Detaches the children of the element to be projected in the component slots.
+ * Elements with a slot attribute go to the named slot (template elements by content), all other children to the default one.
+ */
+function extractSlots(svelteElement: HTMLElement): Slots {
+	const slots: Slots = {};
+	const defaultSlot: Node[] = [];
+
+	for (const child of Array.from(svelteElement.childNodes)) {
+		if (isPropsElement(child)) continue;
+
+		svelteElement.removeChild(child);
+
+		const slotName = child instanceof Element ? child.getAttribute('slot') : null;
+		if (!slotName) {
+			defaultSlot.push(child);
+			continue;
+		}
+
+		const nodes =
+			child instanceof HTMLTemplateElement ? Array.from(child.content.childNodes) : [child];
+		slots[slotName] = [...(slots[slotName] ?? []), ...nodes];
+	}
+
+	const hasDefaultContent = defaultSlot.some(
+		(node) =>
+			node.nodeType === Node.ELEMENT_NODE ||
+			(node.nodeType === Node.TEXT_NODE && node.textContent?.trim())
+	);
+	if (hasDefaultContent) {
+		slots.default = defaultSlot;
+	}
+
+	return slots;
+}
@@ -0,0 +1,81 @@
+import type { CreateOptions, EventHandlers, SvelteElement } from '$lib/SvelteInjector.js';
+import type { ComponentType } from 'svelte';
+import { Directive, EventEmitter, type OnChanges } from '@angular/core';
+import { injectSvelteComponent } from '../inject/inject-svelte-component.js';
+
+/**
+ * @description
+ * Angular standalone directive for svelte-injector
+ *
+ * **Inputs:**
+ *
+ * component - component class or link name
+ *
+ * props - props object
+ *
+ * toRender (default: true)
+ *
+ * options (default: CreateOptions)
+ *
+ * events - names of the component events to emit through *componentEvent*
+ *
+ * **Outputs:**
+ *
+ * mount - emitted on mount with the *element*
+ *
+ * componentEvent - emitted with the component events listed in *events*
+ *
+ * Outputs declared by a subclass are bound to the component event with the same name.
+ *
+ * The directive is compiled at runtime: the app needs the Angular JIT compiler (`@angular/compiler`).
+ *
+ * @example
+ * <svelte-component component="hello" [props]="{ name: 'world' }" [events]="['save']" (componentEvent)="onEvent($event)"></svelte-component>
+ */
+export class SvelteComponentDirective implements OnChanges {
+	component!: string | ComponentType;
+	props: Record<string, any> = {};
+	toRender = true;
+	options: CreateOptions = {};
+	events: string[] = [];
+
+	mount = new EventEmitter<SvelteElement>();
+	componentEvent = new EventEmitter<CustomEvent>();
+
+	private readonly svelte = injectSvelteComponent();
+
+	ngOnChanges() {
+		this.svelte.update(this.component, this.props, {
+			...this.options,
+			toRender: this.toRender,
+			on: { ...this.options.on, ...this.getEventHandlers() },
+			onMount: (element) => this.mount.emit(element)
+		});
+	}
+
+	/**
+	 * Binds the listed events to *componentEvent* and the outputs of subclasses to the event with the same name.
+	 */
+	private getEventHandlers(): EventHandlers {
+		const handlers: EventHandlers = {};
+		const ownOutputs = new Set<unknown>([this.mount, this.componentEvent]);
+
+		for (const event of this.events) {
+			handlers[event] = (e) => this.componentEvent.emit(e);
+		}
+		for (const [event, output] of Object.entries(this)) {
+			if (!(output instanceof EventEmitter) || ownOutputs.has(output)) continue;
+			handlers[event] = (e) => output.emit(e);
+		}
+
+		return handlers;
+	}
+}
+
+// Decorated by call, the library is not compiled with decorators
+Directive({
+	selector: 'svelte-component, [svelteComponent]',
+	standalone: true,
+	inputs: ['component', 'props', 'toRender', 'options', 'events'],
+	outputs: ['mount', 'componentEvent']
+})(SvelteComponentDirective);
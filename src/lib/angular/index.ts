@@ -0,0 +1,6 @@
+export { SvelteComponentDirective } from './component/svelte-component.js';
+export {
+	injectSvelteComponent,
+	type SvelteComponentOptions,
+	type SvelteComponentRef
+} from './inject/inject-svelte-component.js';
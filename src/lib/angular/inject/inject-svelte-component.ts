@@ -0,0 +1,183 @@
+import {
+	type CreateOptions,
+	type EventHandlers,
+	type SvelteElement,
+	create
+} from '$lib/SvelteInjector.js';
+import type { ComponentProps, ComponentType, SvelteComponent } from 'svelte';
+import { DestroyRef, ElementRef, NgZone, inject } from '@angular/core';
+
+export interface SvelteComponentOptions<T extends SvelteComponent = any> extends CreateOptions {
+	/** toRender (default: true) */
+	toRender?: boolean;
+	/** function called on mount with parameters: *element* */
+	onMount?: (element: SvelteElement<T>) => void;
+}
+
+export interface SvelteComponentRef<T extends SvelteComponent = any> {
+	/** the element, once mounted */
+	readonly element: SvelteElement<T> | undefined;
+	/** renders the component, see {@link injectSvelteComponent} */
+	update(
+		component: ComponentType<T> | string,
+		props: ComponentProps<T>,
+		options?: SvelteComponentOptions<T>
+	): void;
+	/** destroys the component, also called when the host is destroyed */
+	destroy(): void;
+}
+
+interface Rendered<T extends SvelteComponent> {
+	component: ComponentType<T> | string;
+	props: ComponentProps<T>;
+	options: SvelteComponentOptions<T>;
+}
+
+/**
+ * @description
+ * Angular helper for svelte-injector: renders a component in the host element of the Angular component or directive.
+ * Must be called in an injection context, es: a field initializer.
+ *
+ * The component is created on the first *update*, recreated when *component* changes and destroyed with the host.
+ * Props and toRender changes are forwarded to the element, the listeners are bound again when events are added or removed.
+ * Event handlers, onPropsChange and onMount are always the last ones passed. The other options are read on creation.
+ *
+ * The component is created outside the Angular zone, event handlers and onMount run inside it.
+ *
+ * @example
+ * @Component({ selector: 'app-hello', standalone: true, template: '' })
+ * export class HelloComponent implements OnChanges {
+ *     @Input() name = '';
+ *     @Output() save = new EventEmitter<CustomEvent>();
+ *
+ *     private readonly svelte = injectSvelteComponent();
+ *
+ *     ngOnChanges() {
+ *         this.svelte.update('hello', { name: this.name }, { on: { save: (e) => this.save.emit(e) } });
+ *     }
+ * }
+ *
+ * @return - A {@link SvelteComponentRef}
+ */
+export function injectSvelteComponent<T extends SvelteComponent = any>(): SvelteComponentRef<T> {
+	const host: HTMLElement = inject(ElementRef).nativeElement;
+	const ngZone = inject(NgZone);
+	let latest: Rendered<T> | undefined;
+	let element: SvelteElement<T> | undefined;
+	let cancelCreation: (() => void) | undefined;
+
+	host.style.display = 'contents';
+	inject(DestroyRef).onDestroy(destroy);
+
+	function update(
+		component: ComponentType<T> | string,
+		props: ComponentProps<T>,
+		options: SvelteComponentOptions<T> = {}
+	) {
+		const previous = latest;
+		latest = { component, props, options };
+
+		if (previous?.component !== component) {
+			cancelCreation?.();
+			cancelCreation = ngZone.runOutsideAngular(() => createElement(component, props, options));
+			return;
+		}
+
+		if (props !== previous.props) element?.updateProps(props);
+		const toRender = options.toRender ?? true;
+		if (toRender !== (previous.options.toRender ?? true)) element?.setToRender(toRender);
+		if (getEventNames(options.on) !== getEventNames(previous.options.on)) {
+			element?.updateEventHandlers(
+				forwardEventHandlers(options.on, () => latest?.options.on, ngZone)
+			);
+		}
+	}
+
+	/**
+	 * Pending creations can't be cancelled: each one gets its own container,
+	 * so that a recreation doesn't happen on the node of the previous element
+	 */
+	function createElement(
+		component: ComponentType<T> | string,
+		initialProps: ComponentProps<T>,
+		initialOptions: SvelteComponentOptions<T>
+	) {
+		const container = document.createElement('div');
+		container.style.display = 'contents';
+		host.appendChild(container);
+
+		const { toRender = true, onMount, ...createOptions } = initialOptions;
+		let cancelled = false;
+
+		create<T>(container, component, initialProps, toRender, {
+			...createOptions,
+			on: forwardEventHandlers(createOptions.on, () => latest?.options.on, ngZone),
+			onPropsChange: (key, value) => {
+				ngZone.run(() => latest?.options.onPropsChange?.(key, value));
+			}
+		})
+			.then((created) => {
+				if (cancelled || !latest) {
+					created.destroy();
+					return;
+				}
+				element = created;
+
+				// Changed while the component was loading
+				const { props, options } = latest;
+				if (props !== initialProps) created.updateProps(props);
+				if ((options.toRender ?? true) !== toRender) created.setToRender(options.toRender ?? true);
+				if (getEventNames(options.on) !== getEventNames(createOptions.on)) {
+					created.updateEventHandlers(
+						forwardEventHandlers(options.on, () => latest?.options.on, ngZone)
+					);
+				}
+
+				ngZone.run(() => options.onMount?.(created));
+			})
+			.catch((error) => {
+				if (!cancelled) console.error('Could not create component:', component, error);
+			});
+
+		return () => {
+			cancelled = true;
+			element?.destroy();
+			element = undefined;
+			container.remove();
+		};
+	}
+
+	function destroy() {
+		cancelCreation?.();
+		cancelCreation = undefined;
+		latest = undefined;
+	}
+
+	return {
+		get element() {
+			return element;
+		},
+		update,
+		destroy
+	};
+}
+
+/**
+ * Handlers call the last handler passed for the same event, inside the Angular zone.
+ */
+function forwardEventHandlers(
+	on: EventHandlers = {},
+	getHandlers: () => EventHandlers | undefined,
+	ngZone: NgZone
+): EventHandlers {
+	return Object.fromEntries(
+		Object.keys(on).map((event) => [
+			event,
+			(e: CustomEvent) => ngZone.run(() => getHandlers()?.[event]?.(e))
+		])
+	);
+}
+
+function getEventNames(on: EventHandlers = {}): string {
+	return Object.keys(on).sort().join(' ');
+}
@@ -1,4 +1,13 @@
-import { type SvelteElement, hydrate, serializeProps } from '$lib/SvelteInjector.js';
+import {
+	type EventHandlers,
+	type SvelteElement,
+	type HydrateFailure,
+	hydrateElement,
+	serializeProps
+} from '$lib/SvelteInjector.js';
+
+// on-mount and on-props-change are bindings of the wrapper, not component events
+const ownBindings = new Set(['onMount', 'onPropsChange']);
 
 class SvelteComponentController {
 	component: string | undefined;
@@ -8,12 +17,22 @@ class SvelteComponentController {
 	toRender: boolean;
 	options: any;
 	encode: boolean;
+	propsFormat: string | undefined;
 	onMount: any;
+	bindings: string[] | undefined;
+	onPropsChange: any;
 	private element: SvelteElement | undefined;
 	private propsElement: HTMLTemplateElement;
 
-	static $inject = ['$element', '$timeout'];
-	constructor(private $element: any, private $timeout: any) {
+	static $inject = ['$element', '$timeout', '$transclude', '$attrs', '$parse', '$scope'];
+	constructor(
+		private $element: any,
+		private $timeout: any,
+		private $transclude: any,
+		private $attrs: any,
+		private $parse: any,
+		private $scope: any
+	) {
 		this.encode = true;
 		this.toRender = true;
 		const propsElement = document.createElement('template');
@@ -26,18 +45,69 @@ class SvelteComponentController {
 		const rootElement = this.$element[0];
 		rootElement.style.display = 'contents';
 		rootElement.firstChild.appendChild(this.propsElement);
+		const placeholder = rootElement.firstChild;
+		this.$transclude((clone: any) => {
+			// Transcluded content is projected in the component slots by hydrateElement
+			for (const node of Array.from(clone as ArrayLike<Node>)) {
+				placeholder.appendChild(node);
+			}
+		});
 		this.$timeout(() => {
-			hydrate(rootElement, this.options).then(([element]) => {
-				this.element = element;
-				if (this.onMount) this.onMount({ element });
-			});
+			// Only the own placeholder: nested <svelte-component>s in the transcluded content hydrate themselves.
+			// They are destroyed by $onDestroy, not when their placeholder is moved in the slots of the parent
+			hydrateElement(placeholder, {
+				observeParents: false,
+				...this.options,
+				on: this.getEventHandlers(),
+				bindings: this.bindings,
+				onPropsChange: (key, value) => this.handlePropsChange(key, value)
+			})
+				.then((element) => {
+					this.element = element;
+					if (this.onMount) this.onMount({ element });
+				})
+				.catch((failure: HydrateFailure) => {
+					// The other failures are logged by the injector
+					if (failure.reason === 'already-hydrated') console.warn(failure.error);
+				});
+		});
+	}
+
+	/**
+	 * Maps the on-xxx attributes to the xxx event of the component, like "&" bindings:
+	 * the expression is evaluated on the parent scope, inside a digest cycle, with the *event* (and *$event*) local.
+	 */
+	private getEventHandlers(): EventHandlers {
+		const handlers: EventHandlers = {};
+		for (const key of Object.keys(this.$attrs.$attr)) {
+			if (!/^on[A-Z]/.test(key) || ownBindings.has(key)) continue;
+			const expression = this.$parse(this.$attrs[key]);
+			handlers[key.charAt(2).toLowerCase() + key.slice(3)] = (event) => {
+				this.$timeout(() => expression(this.$scope.$parent, { event, $event: event }));
+			};
+		}
+		return handlers;
+	}
+
+	/**
+	 * Writes bound props back into the bound props object, inside a digest cycle.
+	 */
+	private handlePropsChange(key: string, value: unknown) {
+		this.$timeout(() => {
+			if (this.props) this.props[key] = value;
+			if (this.onPropsChange) this.onPropsChange({ key, value });
 		});
 	}
 
 	$onChanges(changes: any) {
 		if (changes.props?.currentValue) {
 			if (this.propsElement.content) {
-				this.propsElement.content.textContent = serializeProps(this.props, this.encode);
+				if (this.propsFormat) this.propsElement.dataset.propsFormat = this.propsFormat;
+				this.propsElement.content.textContent = serializeProps(
+					this.props,
+					this.encode,
+					this.propsFormat
+				);
 			}
 		}
 	}
@@ -65,15 +135,37 @@ class SvelteComponentController {
  *
  * encode: "<" (default: true)
  *
+ * propsFormat: "<" (default: "json") - props format, as registered with registerPropsCodec
+ *
  * onMount: "&" - function called with on mount with parameters: *element*
  *
+ * on-xxx: expression evaluated inside a digest on the xxx event of the component, with parameters: *event*
+ *
+ * bindings: "<" - names of the props to bind two-way: changes made by the component are written back into *props*
+ *
+ * onPropsChange: "&" - function called when a bound prop changes with parameters: *key*, *value*
+ *
  * @example
  * <svelte-component component-name="hello" props"$ctrl.svelteProps" on-mount="setChildElement(element)"></svelte-component>
  *
+ * @example Events
+ * <svelte-component component-name="hello" on-save="$ctrl.onSave(event)"></svelte-component>
+ *
+ * @example Slots
+ * // transcluded content goes to the default slot, elements with a slot attribute to the named ones
+ * <svelte-component component-name="card">
+ *     <h2 slot="header">{{$ctrl.title}}</h2>
+ *     <p>{{$ctrl.content}}</p>
+ * </svelte-component>
+ *
+ * @example Two-way binding
+ * <svelte-component component-name="toggle" props="$ctrl.toggleProps" bindings="['checked']"></svelte-component>
+ *
  */
 export const svelteComponent = {
 	template: `<div data-component-name="{{$ctrl.component || $ctrl.componentName}}" data-to-render="{{$ctrl.toRender}}"></div>`,
 	controller: SvelteComponentController,
+	transclude: true,
 	bindings: {
 		component: '@',
 		componentName: '@',
@@ -81,6 +173,9 @@ export const svelteComponent = {
 		toRender: '<',
 		options: '<',
 		encode: '<',
-		onMount: '&'
+		propsFormat: '<',
+		onMount: '&',
+		bindings: '<',
+		onPropsChange: '&'
 	}
 };
@@ -0,0 +1,122 @@
+import {
+	type CreateOptions,
+	type Injector,
+	type SvelteElement,
+	defaultInjector
+} from './SvelteInjector.js';
+import { parsePropAttribute, toPropName } from './internal/attributes.js';
+
+export interface InjectedElementOptions extends CreateOptions {
+	observedProps?: string[];
+	/** injector in which the component is registered, see createInjector */
+	injector?: Injector;
+}
+
+/**
+ * @description Defines a custom element that renders a registered component into itself.
+ * Observed props are read from the matching attributes (JSON values or plain strings) and JS properties.
+ *
+ * @example
+ * registerComponent('hello', Hello);
+ * defineInjectedElement('x-hello', 'hello', { observedProps: ['name', 'firstName'] });
+ *
+ * <x-hello name="world" first-name="Svelte"></x-hello>
+ *
+ * @param tagName - name of the custom element, must contain a hyphen
+ * @param registeredName - name of the component as previously registered with {@link registerComponent}
+ * @param options - observed props and {@link CreateOptions}, optional
+ */
+export function defineInjectedElement(
+	tagName: string,
+	registeredName: string,
+	{ observedProps = [], injector = defaultInjector, ...options } = {} as InjectedElementOptions
+): void {
+	class InjectedElement extends HTMLElement {
+		static get observedAttributes() {
+			return observedProps.map(toAttributeName);
+		}
+
+		private element: SvelteElement | undefined;
+		/** pending creation, kept when the element is moved (disconnected and connected again) before it resolves */
+		private creation: Promise<void> | undefined;
+		private destruction: Promise<unknown> = Promise.resolve();
+		private props: Record<string, any> = {};
+
+		constructor() {
+			super();
+			// Properties set before the element was upgraded shadow the prototype accessors
+			for (const prop of observedProps) {
+				if (!Object.prototype.hasOwnProperty.call(this, prop)) continue;
+				const value = (this as Record<string, any>)[prop];
+				delete (this as Record<string, any>)[prop];
+				this.setProp(prop, value);
+			}
+		}
+
+		connectedCallback() {
+			this.style.display = 'contents';
+			if (this.element || this.creation) return;
+			this.creation = this.createElement();
+		}
+
+		disconnectedCallback() {
+			if (this.element) this.destruction = this.element.destroy();
+			this.element = undefined;
+		}
+
+		/**
+		 * The previous element is destroyed first: a new one can't be created on the same node while it is alive.
+		 */
+		private async createElement() {
+			try {
+				await this.destruction;
+				const element = await injector.create(this, registeredName, this.props, true, {
+					observeParents: false,
+					...options
+				});
+				if (!this.isConnected) {
+					this.destruction = element.destroy();
+					return;
+				}
+				this.element = element;
+				if (element.props !== this.props) element.updateProps(this.props);
+			} catch (error) {
+				console.error('Could not create component:', registeredName, this, error);
+			} finally {
+				this.creation = undefined;
+			}
+		}
+
+		attributeChangedCallback(name: string, oldValue: string | null, value: string | null) {
+			if (oldValue === value) return;
+			// Removed attributes unset the prop
+			this.setProp(toPropName(name), value === null ? undefined : parsePropAttribute(value));
+		}
+
+		getProp(prop: string) {
+			return this.props[prop];
+		}
+
+		setProp(prop: string, value: unknown) {
+			this.props = { ...this.props, [prop]: value };
+			this.element?.updateProps(this.props);
+		}
+	}
+
+	for (const prop of observedProps) {
+		Object.defineProperty(InjectedElement.prototype, prop, {
+			get(this: InjectedElement) {
+				return this.getProp(prop);
+			},
+			set(this: InjectedElement, value: unknown) {
+				this.setProp(prop, value);
+			}
+		});
+	}
+
+	customElements.define(tagName, InjectedElement);
+}
+
+function toAttributeName(prop: string): string {
+	return prop.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
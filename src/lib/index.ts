@@ -1,3 +1,5 @@
 export * from './SvelteInjector.js';
+export * from './customElement.js';
 export { default as InjectedComponents } from './InjectedComponents.svelte';
+export { default as InjectorDebugOverlay } from './InjectorDebugOverlay.svelte';
 export { default as Portal } from './internal/Portal.svelte';
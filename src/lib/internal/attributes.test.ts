@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { parsePropAttribute, parsePropTypes, toPropName } from './attributes.js';
+
+describe('parsePropTypes', () => {
+	it('reads the declarations', () => {
+		expect(parsePropTypes('zip:string, count : number,active:boolean')).toEqual({
+			zip: 'string',
+			count: 'number',
+			active: 'boolean'
+		});
+	});
+
+	it('ignores missing attributes and incomplete declarations', () => {
+		expect(parsePropTypes(null)).toEqual({});
+		expect(parsePropTypes('')).toEqual({});
+		expect(parsePropTypes('zip, :number, count:')).toEqual({});
+	});
+});
+
+describe('parsePropAttribute', () => {
+	it('parses undeclared values as JSON, or keeps them as strings', () => {
+		expect(parsePropAttribute('42')).toBe(42);
+		expect(parsePropAttribute('true')).toBe(true);
+		expect(parsePropAttribute('{"a":[1,2]}')).toEqual({ a: [1, 2] });
+		expect(parsePropAttribute('world')).toBe('world');
+		expect(parsePropAttribute('{broken')).toBe('{broken');
+	});
+
+	it('keeps declared strings as they are', () => {
+		expect(parsePropAttribute('01234', 'string')).toBe('01234');
+		expect(parsePropAttribute('null', 'string')).toBe('null');
+	});
+
+	it('converts declared numbers, booleans and dates', () => {
+		expect(parsePropAttribute('01234', 'number')).toBe(1234);
+		expect(parsePropAttribute('', 'boolean')).toBe(true);
+		expect(parsePropAttribute('false', 'boolean')).toBe(false);
+		expect(parsePropAttribute('2024-01-02', 'date')).toEqual(new Date('2024-01-02'));
+	});
+
+	it('throws on malformed declared JSON', () => {
+		expect(parsePropAttribute('[1]', 'json')).toEqual([1]);
+		expect(() => parsePropAttribute('{broken', 'json')).toThrow();
+	});
+});
+
+describe('toPropName', () => {
+	it('camel cases the attribute name', () => {
+		expect(toPropName('first-name')).toBe('firstName');
+		expect(toPropName('name')).toBe('name');
+		expect(toPropName('a-long-prop-name')).toBe('aLongPropName');
+	});
+});
@@ -0,0 +1,46 @@
+/**
+ * Reads the declared types of the prop attributes, es: data-props-types="zip:string, count:number"
+ */
+export function parsePropTypes(typesAttribute: string | null): Record<string, string> {
+	const types: Record<string, string> = {};
+	if (!typesAttribute) return types;
+
+	for (const declaration of typesAttribute.split(',')) {
+		const [prop, type] = declaration.split(':').map((part) => part.trim());
+		if (prop && type) types[prop] = type;
+	}
+
+	return types;
+}
+
+/**
+ * Declared types are "string", "number", "boolean", "date" and "json".
+ * Undeclared values are parsed as JSON, or kept as strings.
+ */
+export function parsePropAttribute(value: string, type?: string): unknown {
+	switch (type) {
+		case 'string':
+			return value;
+		case 'number':
+			return Number(value);
+		case 'boolean':
+			return value !== 'false';
+		case 'date':
+			return new Date(value);
+		case 'json':
+			return JSON.parse(value);
+		default:
+			try {
+				return JSON.parse(value);
+			} catch (e) {
+				return value;
+			}
+	}
+}
+
+/**
+ * es: first-name -> firstName
+ */
+export function toPropName(attribute: string): string {
+	return attribute.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase());
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { isHydrateStrategy, waitForStrategy } from './hydration.js';
+
+// Only the listeners are used by the interaction strategy
+const createTarget = () => new EventTarget() as HTMLElement;
+
+describe('waitForStrategy', () => {
+	it('resolves right away on load', async () => {
+		await expect(waitForStrategy('load', createTarget())).resolves.toBeUndefined();
+	});
+
+	it('resolves on the first interaction', async () => {
+		const target = createTarget();
+		const waiting = waitForStrategy('interaction', target);
+
+		target.dispatchEvent(new Event('focusin'));
+		await expect(waiting).resolves.toBeUndefined();
+	});
+
+	it('rejects with the reason of the signal and stops listening', async () => {
+		const target = createTarget();
+		const controller = new AbortController();
+		let listened = 0;
+		const addEventListener = target.addEventListener.bind(target);
+		const removeEventListener = target.removeEventListener.bind(target);
+		target.addEventListener = (...args: Parameters<typeof addEventListener>) => {
+			listened++;
+			addEventListener(...args);
+		};
+		target.removeEventListener = (...args: Parameters<typeof removeEventListener>) => {
+			listened--;
+			removeEventListener(...args);
+		};
+
+		const waiting = waitForStrategy('interaction', target, controller.signal);
+		controller.abort('cancelled');
+
+		await expect(waiting).rejects.toBe('cancelled');
+		expect(listened).toBe(0);
+	});
+
+	it('rejects when the signal is already aborted', async () => {
+		await expect(waitForStrategy('idle', createTarget(), AbortSignal.abort('gone'))).rejects.toBe(
+			'gone'
+		);
+	});
+});
+
+describe('isHydrateStrategy', () => {
+	it('accepts the strategies and media queries', () => {
+		for (const strategy of ['load', 'visible', 'idle', 'interaction', 'media:(min-width: 800px)']) {
+			expect(isHydrateStrategy(strategy)).toBe(true);
+		}
+		expect(isHydrateStrategy('never')).toBe(false);
+	});
+});
@@ -0,0 +1,97 @@
+export type HydrateStrategy = 'load' | 'visible' | 'idle' | 'interaction' | `media:${string}`;
+
+const interactionEvents = ['pointerover', 'pointerdown', 'touchstart', 'focusin'];
+
+/**
+ * Resolves when the element should be hydrated with the given strategy.
+ * Strategies that are not supported by the browser resolve immediately.
+ * Rejects with the reason of the signal when it is aborted, the observers and listeners are removed.
+ */
+export function waitForStrategy(
+	strategy: HydrateStrategy,
+	domElement: HTMLElement,
+	signal?: AbortSignal
+): Promise<void> {
+	if (signal?.aborted) return Promise.reject(signal.reason);
+	if (strategy === 'visible') return waitForVisible(domElement, signal);
+	if (strategy === 'idle') return waitForIdle(signal);
+	if (strategy === 'interaction') return waitForInteraction(domElement, signal);
+	if (strategy.startsWith('media:')) {
+		return waitForMedia(strategy.slice('media:'.length).trim(), signal);
+	}
+	return Promise.resolve();
+}
+
+export function isHydrateStrategy(value: string): value is HydrateStrategy {
+	return ['load', 'visible', 'idle', 'interaction'].includes(value) || value.startsWith('media:');
+}
+
+function waitForVisible(domElement: HTMLElement, signal?: AbortSignal): Promise<void> {
+	if (typeof IntersectionObserver === 'undefined') return Promise.resolve();
+
+	return waitUntil(signal, (resolve) => {
+		const observer = new IntersectionObserver((entries) => {
+			if (entries.some((entry) => entry.isIntersecting)) resolve();
+		});
+		observer.observe(domElement);
+		return () => observer.disconnect();
+	});
+}
+
+function waitForIdle(signal?: AbortSignal): Promise<void> {
+	return waitUntil(signal, (resolve) => {
+		if (typeof requestIdleCallback === 'function') {
+			const handle = requestIdleCallback(() => resolve());
+			return () => cancelIdleCallback(handle);
+		}
+		const timeout = setTimeout(resolve, 1);
+		return () => clearTimeout(timeout);
+	});
+}
+
+function waitForInteraction(domElement: HTMLElement, signal?: AbortSignal): Promise<void> {
+	return waitUntil(signal, (resolve) => {
+		for (const event of interactionEvents) {
+			domElement.addEventListener(event, resolve, { passive: true });
+		}
+		return () => {
+			for (const event of interactionEvents) domElement.removeEventListener(event, resolve);
+		};
+	});
+}
+
+function waitForMedia(query: string, signal?: AbortSignal): Promise<void> {
+	if (typeof matchMedia === 'undefined') return Promise.resolve();
+
+	const mediaQuery = matchMedia(query);
+	if (mediaQuery.matches) return Promise.resolve();
+
+	return waitUntil(signal, (resolve) => {
+		const onChange = () => {
+			if (mediaQuery.matches) resolve();
+		};
+		mediaQuery.addEventListener('change', onChange);
+		return () => mediaQuery.removeEventListener('change', onChange);
+	});
+}
+
+/**
+ * Runs the cleanup returned by *listen* once resolved, or rejects when the signal is aborted.
+ */
+function waitUntil(
+	signal: AbortSignal | undefined,
+	listen: (resolve: () => void) => () => void
+): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			cleanup();
+			reject(signal?.reason);
+		};
+		const cleanup = listen(() => {
+			cleanup();
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		});
+		signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { loadWithRetries } from './loading.js';
+
+describe('loadWithRetries', () => {
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('resolves with the value of the getter', async () => {
+		const getter = vi.fn(() => Promise.resolve('component'));
+		await expect(loadWithRetries(getter)).resolves.toBe('component');
+		expect(getter).toHaveBeenCalledTimes(1);
+	});
+
+	it('does not retry by default', async () => {
+		const getter = vi.fn(() => Promise.reject(new Error('failed')));
+		await expect(loadWithRetries(getter)).rejects.toThrow('failed');
+		expect(getter).toHaveBeenCalledTimes(1);
+	});
+
+	it('retries until the getter resolves', async () => {
+		const getter = vi
+			.fn<[], Promise<string>>()
+			.mockRejectedValueOnce(new Error('first'))
+			.mockResolvedValueOnce('component');
+		await expect(loadWithRetries(getter, { retries: 2 })).resolves.toBe('component');
+		expect(getter).toHaveBeenCalledTimes(2);
+	});
+
+	it('rejects with the error of the last attempt', async () => {
+		let attempt = 0;
+		const getter = vi.fn(() => Promise.reject(new Error(`attempt ${++attempt}`)));
+		await expect(loadWithRetries(getter, { retries: 2 })).rejects.toThrow('attempt 3');
+		expect(getter).toHaveBeenCalledTimes(3);
+	});
+
+	it('rejects an attempt that exceeds the timeout', async () => {
+		vi.useFakeTimers();
+		const getter = vi.fn(() => new Promise<string>(() => {}));
+		const loading = loadWithRetries(getter, { timeout: 100, retries: 1 });
+		const result = expect(loading).rejects.toBe('Component loading timed out after 100 ms.');
+
+		await vi.advanceTimersByTimeAsync(100);
+		expect(getter).toHaveBeenCalledTimes(2);
+		await vi.advanceTimersByTimeAsync(100);
+		await result;
+	});
+
+	it('retries an attempt that timed out', async () => {
+		vi.useFakeTimers();
+		const getter = vi
+			.fn<[], Promise<string>>()
+			.mockReturnValueOnce(new Promise(() => {}))
+			.mockResolvedValueOnce('component');
+		const loading = loadWithRetries(getter, { timeout: 100, retries: 1 });
+
+		await vi.advanceTimersByTimeAsync(100);
+		await expect(loading).resolves.toBe('component');
+		expect(getter).toHaveBeenCalledTimes(2);
+	});
+});
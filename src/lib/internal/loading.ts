@@ -0,0 +1,35 @@
+export interface LoadOptions {
+	/** milliseconds before an attempt is abandoned */
+	timeout?: number;
+	/** attempts after the first failure */
+	retries?: number;
+}
+
+/**
+ * Calls the getter until it resolves, at most `retries + 1` times.
+ * Rejects with the error of the last attempt.
+ */
+export async function loadWithRetries<T>(
+	getter: () => Promise<T>,
+	{ timeout, retries = 0 }: LoadOptions = {}
+): Promise<T> {
+	for (let attempt = 0; ; attempt++) {
+		try {
+			return await withTimeout(getter(), timeout);
+		} catch (error) {
+			if (attempt >= retries) throw error;
+		}
+	}
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number | undefined): Promise<T> {
+	if (!timeout) return promise;
+
+	return new Promise((resolve, reject) => {
+		const timer = setTimeout(
+			() => reject(`Component loading timed out after ${timeout} ms.`),
+			timeout
+		);
+		promise.then(resolve, reject).finally(() => clearTimeout(timer));
+	});
+}
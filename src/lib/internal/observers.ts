@@ -0,0 +1,164 @@
+interface ObservedElement {
+	domElement: HTMLElement;
+}
+
+interface ObserveOptions {
+	/** destroy the element when its placeholder is removed from the DOM */
+	parents: boolean;
+	/** report the attribute changes of the placeholder and the changes of the props elements */
+	data: boolean;
+	/** template contents and script elements holding the props */
+	propsTargets: Node[];
+}
+
+interface SharedObserversCallbacks<E extends ObservedElement> {
+	onRemove(element: E): void;
+	/** data mutations of the last frame, grouped by element */
+	onChange(changes: Map<E, MutationRecord[]>): void;
+}
+
+interface RootEntry<E> {
+	observer: MutationObserver;
+	elements: Set<E>;
+}
+
+/**
+ * One MutationObserver per root node (document or shadow root) watches the removals in the whole tree,
+ * and the attributes and props elements of every observed element of that root.
+ *
+ * Data mutations are dispatched once per frame.
+ *
+ * @param placeholderSelector - selector matching the placeholders of the observed elements, to find them in removed subtrees
+ * @param callbacks - called on removals and data changes
+ */
+export function createSharedObservers<E extends ObservedElement>(
+	placeholderSelector: string,
+	callbacks: SharedObserversCallbacks<E>
+) {
+	const roots = new Map<Node, RootEntry<E>>();
+	const elementRoots = new Map<E, Node>();
+	const removableTargets = new WeakMap<Node, E>();
+	const attributeTargets = new WeakMap<Node, E>();
+	const propsTargets = new WeakMap<Node, E>();
+	let changes = new Map<E, MutationRecord[]>();
+	let flushScheduled = false;
+
+	function observe(element: E, { parents, data, propsTargets: targets }: ObserveOptions) {
+		if (elementRoots.has(element) || (!parents && !data)) return;
+
+		const root = element.domElement.getRootNode();
+		const entry = roots.get(root) ?? createRoot(root);
+
+		entry.elements.add(element);
+		elementRoots.set(element, root);
+
+		if (parents) removableTargets.set(element.domElement, element);
+		if (data) {
+			// Prop attributes can't be listed upfront: attributes are filtered by the callback
+			attributeTargets.set(element.domElement, element);
+			entry.observer.observe(element.domElement, { attributes: true });
+
+			for (const target of targets) {
+				propsTargets.set(target, element);
+				entry.observer.observe(target, { characterData: true, subtree: true, childList: true });
+			}
+		}
+	}
+
+	function unobserve(element: E) {
+		const root = elementRoots.get(element);
+		if (!root) return;
+
+		elementRoots.delete(element);
+		changes.delete(element);
+		for (const targets of [removableTargets, attributeTargets]) {
+			if (targets.get(element.domElement) === element) targets.delete(element.domElement);
+		}
+
+		const entry = roots.get(root);
+		if (!entry) return;
+
+		entry.elements.delete(element);
+		// Observed targets can't be removed one by one: the observer is dropped with its last element
+		if (!entry.elements.size) {
+			entry.observer.disconnect();
+			roots.delete(root);
+		}
+	}
+
+	function createRoot(root: Node): RootEntry<E> {
+		const entry: RootEntry<E> = {
+			observer: new MutationObserver((mutations) => handleMutations(mutations)),
+			elements: new Set()
+		};
+		entry.observer.observe(root, { childList: true, subtree: true });
+		roots.set(root, entry);
+		return entry;
+	}
+
+	function handleMutations(mutations: MutationRecord[]) {
+		const removedNodes: Node[] = [];
+
+		for (const mutation of mutations) {
+			const element =
+				mutation.type === 'attributes'
+					? attributeTargets.get(mutation.target)
+					: findPropsOwner(mutation.target);
+
+			if (element && elementRoots.has(element)) {
+				queueChange(element, mutation);
+			} else if (mutation.type === 'childList') {
+				removedNodes.push(...Array.from(mutation.removedNodes));
+			}
+		}
+
+		for (const node of removedNodes) {
+			if (!(node instanceof Element)) continue;
+
+			const placeholders = Array.from(node.querySelectorAll(placeholderSelector));
+			if (node.matches(placeholderSelector)) placeholders.push(node);
+
+			for (const placeholder of placeholders) {
+				const element = removableTargets.get(placeholder);
+				// Nodes can be moved: only disconnected placeholders are removed
+				if (element && !placeholder.isConnected) callbacks.onRemove(element);
+			}
+		}
+	}
+
+	function findPropsOwner(node: Node): E | undefined {
+		return (
+			propsTargets.get(node) ??
+			(node.parentNode ? propsTargets.get(node.parentNode) : undefined) ??
+			// Template contents are never connected
+			(node.isConnected ? undefined : propsTargets.get(node.getRootNode()))
+		);
+	}
+
+	function queueChange(element: E, mutation: MutationRecord) {
+		const elementChanges = changes.get(element) ?? [];
+		elementChanges.push(mutation);
+		changes.set(element, elementChanges);
+
+		if (flushScheduled) return;
+		flushScheduled = true;
+		requestFrame(flush);
+	}
+
+	function flush() {
+		const flushedChanges = changes;
+		changes = new Map();
+		flushScheduled = false;
+		if (flushedChanges.size) callbacks.onChange(flushedChanges);
+	}
+
+	return { observe, unobserve };
+}
+
+function requestFrame(callback: () => void) {
+	if (typeof requestAnimationFrame === 'function') {
+		requestAnimationFrame(callback);
+	} else {
+		setTimeout(callback, 16);
+	}
+}
@@ -0,0 +1,28 @@
+/**
+ * The parts of Svelte 3/4 svelte/internal used by the library, Svelte 4 ships no declaration for it.
+ * The module throws in Svelte 5: import it on demand.
+ */
+declare module 'svelte/internal' {
+	import type { SvelteComponent } from 'svelte';
+
+	export { SvelteComponent } from 'svelte';
+
+	export function group_outros(): void;
+	export function transition_out(
+		block: unknown,
+		local: 0 | 1,
+		detach: 0 | 1,
+		callback: () => void
+	): void;
+	export function check_outros(): void;
+	export function flush(): void;
+	export function init(
+		component: SvelteComponent,
+		options: Record<string, unknown>,
+		instance: ((...args: any[]) => unknown[]) | null,
+		create_fragment: ((ctx: unknown[]) => unknown) | null,
+		not_equal: (a: unknown, b: unknown) => boolean,
+		props: Record<string, number>
+	): void;
+	export function safe_not_equal(a: unknown, b: unknown): boolean;
+}
@@ -0,0 +1,23 @@
+import type { SvelteComponent } from 'svelte';
+
+export interface Svelte4Fragment {
+	m(target: Node, anchor: Node | null): void;
+	p?(...args: unknown[]): unknown;
+	o?(local: 0 | 1): void;
+}
+
+/**
+ * Internal state of a Svelte 3/4 instance, the `$$` property
+ */
+export interface Svelte4Internals {
+	/** prop name -> index in the context */
+	props: Record<string, number>;
+	/** bind: callbacks by context index */
+	bound: Record<number, (value: unknown) => void>;
+	update(...args: unknown[]): unknown;
+	fragment?: Svelte4Fragment | false | null;
+}
+
+export function getInternals(instance: SvelteComponent): Svelte4Internals {
+	return (instance as unknown as { $$: Svelte4Internals }).$$;
+}
@@ -0,0 +1,166 @@
+import * as svelte from 'svelte';
+import * as svelteStore from 'svelte/store';
+import type { SvelteComponent } from 'svelte';
+import type { Readable } from 'svelte/store';
+import type { EventHandler, Slots } from '$lib/SvelteInjector.js';
+
+type Props = Record<string | symbol, any>;
+
+interface MountOptions {
+	target: Element;
+	props: Props;
+	context?: Map<any, any>;
+	intro?: boolean;
+	slots?: Slots;
+}
+
+interface RawSnippet {
+	render(): string;
+	setup?(element: Element): void | (() => void);
+}
+
+interface Svelte5Api {
+	mount?: (component: unknown, options: MountOptions) => Record<string, any>;
+	unmount?: (instance: Record<string, any>, options?: { outro?: boolean }) => Promise<void> | void;
+	createRawSnippet?: (fn: () => RawSnippet) => unknown;
+}
+
+interface Svelte5StoreApi {
+	fromStore?: <T>(store: Readable<T>) => { readonly current: T };
+}
+
+// Only exported by Svelte 5: read from the namespaces, so that Svelte 3/4 builds don't fail on missing exports
+const { mount, unmount, createRawSnippet } = svelte as unknown as Svelte5Api;
+const { fromStore } = svelteStore as unknown as Svelte5StoreApi;
+
+/**
+ * Svelte 5 components are functions taking the anchor and the props.
+ * Lazy getters take no arguments, Svelte 3/4 components are classes.
+ */
+export function isSvelte5Component(component: unknown): boolean {
+	return (
+		!!mount &&
+		typeof component === 'function' &&
+		component.length > 0 &&
+		!/^class\s/.test(Function.prototype.toString.call(component))
+	);
+}
+
+/**
+ * Mounts a Svelte 5 component and returns an instance with the same API of Svelte 3/4 components ($set, $on, $destroy).
+ * Its nodes can be moved to another target with $move, $outro plays the outro transitions before unmounting it.
+ *
+ * Props are read from a store, so that the component reacts to $set.
+ * Writes from the component (bind:) are forwarded to onPropsChange when the prop is listed in bindings.
+ * Slots are passed as snippets, see {@link toSnippetProps}.
+ */
+export function mountSvelte5<C extends SvelteComponent>(
+	Component: unknown,
+	{ target, props, context, intro = false, slots = {} }: MountOptions,
+	bindings: string[] = [],
+	onPropsChange: (key: string, value: unknown) => void = () => {}
+): C {
+	if (!mount || !unmount || !fromStore) {
+		throw new Error('Svelte 5 components need the svelte@5 runtime.');
+	}
+
+	const propsStore = svelteStore.writable({ ...props, ...toSnippetProps(slots) });
+	const currentProps = fromStore(propsStore);
+	const events: Record<string, EventHandler[]> = {};
+
+	// Legacy components dispatch through $$events, runes components call onxxx callback props
+	const findProp = (key: string | symbol) => {
+		if (key === '$$events') return events;
+		const value = currentProps.current[key];
+		if (value === undefined && typeof key === 'string' && key.startsWith('on')) {
+			const handlers = events[key.slice(2)];
+			if (handlers)
+				return (event: unknown) => handlers.forEach((handler) => handler(event as CustomEvent));
+		}
+		return value;
+	};
+
+	const isBound = (key: string | symbol): key is string =>
+		typeof key === 'string' && bindings.includes(key);
+
+	const setProp = (key: string | symbol, value: unknown) => {
+		propsStore.update((props) => ({ ...props, [key]: value }));
+		if (isBound(key)) onPropsChange(key, value);
+		return true;
+	};
+
+	const reactiveProps = new Proxy({} as Props, {
+		get: (_, key) => findProp(key),
+		set: (_, key, value) => setProp(key, value),
+		has: (_, key) => key in currentProps.current,
+		ownKeys: () => Reflect.ownKeys(currentProps.current),
+		getOwnPropertyDescriptor: (_, key) => {
+			if (isBound(key)) {
+				// Svelte 5 writes bound props through the setter of the descriptor
+				const get = () => findProp(key);
+				const set = (value: unknown) => setProp(key, value);
+				return { get, set, enumerable: true, configurable: true };
+			}
+			if (!(key in currentProps.current)) return undefined;
+			return { value: findProp(key), writable: true, enumerable: true, configurable: true };
+		}
+	});
+
+	// Svelte appends its anchor after the component nodes: the nodes between the markers are the component ones
+	const start = target.appendChild(document.createTextNode(''));
+	const instance = mount(Component, { target, props: reactiveProps, context, intro });
+	let unmounted = false;
+	const end = target.lastChild ?? start;
+
+	return {
+		$set(next: Props) {
+			propsStore.update((props) => ({ ...props, ...next }));
+		},
+		$on(event: string, handler: EventHandler) {
+			const handlers = (events[event] ??= []);
+			handlers.push(handler);
+			return () => handlers.splice(handlers.indexOf(handler), 1);
+		},
+		$move(target: Node) {
+			const nodes: Node[] = [];
+			for (let node: Node | null = start; node; node = node.nextSibling) {
+				nodes.push(node);
+				if (node === end) break;
+			}
+			for (const node of nodes) target.appendChild(node);
+		},
+		async $outro() {
+			if (unmounted) return;
+			unmounted = true;
+			await unmount(instance, { outro: true });
+			start.remove();
+		},
+		$destroy() {
+			if (!unmounted) unmount(instance);
+			unmounted = true;
+			start.remove();
+		}
+	} as unknown as C;
+}
+
+/**
+ * Slots are passed as snippets: the default one as `children`, the named ones as the prop with the same name.
+ * `$$slots` lets legacy components render them in their `<slot>` elements.
+ * Snippets render a single element: the nodes are projected in a `display: contents` wrapper.
+ */
+function toSnippetProps(slots: Slots): Props {
+	const names = Object.keys(slots);
+	if (!names.length || !createRawSnippet) return {};
+
+	const snippets = names.map((name) => [
+		name === 'default' ? 'children' : name,
+		createRawSnippet(() => ({
+			render: () => '<div style="display: contents"></div>',
+			setup: (element) => element.append(...slots[name])
+		}))
+	]);
+	return {
+		...Object.fromEntries(snippets),
+		$$slots: Object.fromEntries(names.map((name) => [name, true]))
+	};
+}
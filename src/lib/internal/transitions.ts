@@ -0,0 +1,30 @@
+import type { SvelteComponent } from 'svelte';
+import { getInternals } from './svelte4.js';
+
+interface Svelte5Instance {
+	/** plays the outro and unmounts the component, see mountSvelte5 */
+	$outro(): Promise<void>;
+}
+
+/**
+ * Plays the outro transitions of a mounted instance, resolves when they are finished.
+ * Local transitions of the top level elements are played, as when a component is removed by an {#if} block.
+ * Svelte 3/4 instances are left mounted, Svelte 5 ones are unmounted.
+ */
+export async function transitionOut(instance: SvelteComponent): Promise<void> {
+	if ('$outro' in instance) return (instance as unknown as Svelte5Instance).$outro();
+
+	const fragment = getInternals(instance).fragment;
+	if (!fragment || !fragment.o) return;
+
+	// Same calls the compiler generates for an {#if} block. Loaded on demand: svelte/internal throws in Svelte 5
+	const { group_outros, transition_out, check_outros, flush } = await import('svelte/internal');
+
+	return new Promise((resolve) => {
+		group_outros();
+		transition_out(fragment, 1, 0, resolve);
+		check_outros();
+		// Runs the callbacks scheduled by the transitions, es: outrostart events
+		flush();
+	});
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { SvelteComponent, flush, init, safe_not_equal } from 'svelte/internal';
+import { catchUpdateErrors } from './updates.js';
+
+/**
+ * Same structure the compiler generates for a component with a *value* prop, its fragment renders no DOM:
+ * its fragment throws when value is "boom".
+ */
+class Probe extends SvelteComponent {
+	constructor(updates: unknown[]) {
+		const options = { target: {} as Element, props: { value: 0 } };
+		super(options);
+		init(
+			this,
+			options,
+			($$self: any, $$props: any, $$invalidate: any) => {
+				$$self.$$set = (props: any) => $$invalidate(0, props.value);
+				return [$$props.value];
+			},
+			(ctx) => ({
+				c() {},
+				m() {},
+				p(ctx: unknown[]) {
+					if (ctx[0] === 'boom') throw new Error('boom');
+					updates.push(ctx[0]);
+				},
+				d() {}
+			}),
+			safe_not_equal,
+			{ value: 0 }
+		);
+	}
+}
+
+describe('catchUpdateErrors', () => {
+	it('keeps updating the other components after one throws', () => {
+		const failingUpdates: unknown[] = [];
+		const otherUpdates: unknown[] = [];
+		const failing = new Probe(failingUpdates);
+		const other = new Probe(otherUpdates);
+		const onError = vi.fn();
+
+		catchUpdateErrors(failing, onError);
+		failing.$set({ value: 'boom' });
+		other.$set({ value: 1 });
+		flush();
+
+		expect(onError).toHaveBeenCalledWith(new Error('boom'));
+		expect(otherUpdates).toEqual([1]);
+
+		failing.$set({ value: 2 });
+		flush();
+		expect(failingUpdates).toEqual([2]);
+	});
+});
@@ -0,0 +1,27 @@
+import type { SvelteComponent } from 'svelte';
+import { getInternals } from './svelte4.js';
+
+/**
+ * Svelte 3/4 update every dirty component in one shared flush: an error thrown by one of them empties the queue,
+ * and the pending updates of the other components are lost.
+ * The updates of the instance are guarded, their errors are passed to onError.
+ * Errors thrown by the updates of its child components are not caught.
+ */
+export function catchUpdateErrors(
+	instance: SvelteComponent,
+	onError: (error: unknown) => void
+): void {
+	const $$ = getInternals(instance);
+
+	const wrap =
+		(update: (...args: unknown[]) => unknown) =>
+		(...args: unknown[]) => {
+			try {
+				return update(...args);
+			} catch (error) {
+				onError(error);
+			}
+		};
+	$$.update = wrap($$.update);
+	if ($$.fragment && $$.fragment.p) $$.fragment.p = wrap($$.fragment.p);
+}
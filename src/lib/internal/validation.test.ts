@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { validate, type PropsSchema } from './validation.js';
+
+describe('validate', () => {
+	const schema: PropsSchema = {
+		type: 'object',
+		required: ['name'],
+		properties: {
+			name: { type: 'string' },
+			count: { type: 'number' },
+			size: { enum: ['small', 'large'] },
+			items: { type: 'array', items: { type: 'object', properties: { id: { type: 'integer' } } } }
+		}
+	};
+
+	it('accepts valid props', () => {
+		expect(validate(schema, { name: 'a', count: 1.5, size: 'small', items: [{ id: 1 }] })).toEqual(
+			[]
+		);
+	});
+
+	it('accepts integers as numbers', () => {
+		expect(validate(schema, { name: 'a', count: 2 })).toEqual([]);
+	});
+
+	it('reports missing required props', () => {
+		expect(validate(schema, { count: 1 })).toEqual([{ path: 'name', message: 'required' }]);
+	});
+
+	it('reports type mismatches with their path', () => {
+		expect(validate(schema, { name: 1, items: [{ id: 1 }, { id: 'b' }] })).toEqual([
+			{ path: 'name', message: 'expected string, found integer' },
+			{ path: 'items[1].id', message: 'expected integer, found string' }
+		]);
+	});
+
+	it('accepts a union of types', () => {
+		const union: PropsSchema = {
+			type: 'object',
+			properties: { value: { type: ['string', 'null'] } }
+		};
+		expect(validate(union, { value: null })).toEqual([]);
+		expect(validate(union, { value: true })).toEqual([
+			{ path: 'value', message: 'expected string | null, found boolean' }
+		]);
+	});
+
+	it('reports values outside the enum', () => {
+		expect(validate(schema, { name: 'a', size: 'medium' })).toEqual([
+			{ path: 'size', message: 'expected one of ["small","large"]' }
+		]);
+	});
+
+	it('reports unexpected properties', () => {
+		const closed: PropsSchema = { ...schema, additionalProperties: false };
+		expect(validate(closed, { name: 'a', other: 1 })).toEqual([
+			{ path: 'other', message: 'unexpected property' }
+		]);
+	});
+
+	it('uses the result of a validator function', () => {
+		expect(validate(() => true, {})).toEqual([]);
+		expect(validate(() => false, {})).toEqual([{ path: '', message: 'rejected by the validator' }]);
+		expect(validate((props) => [{ path: 'a', message: `found ${props.a}` }], { a: 1 })).toEqual([
+			{ path: 'a', message: 'found 1' }
+		]);
+	});
+});
@@ -0,0 +1,99 @@
+export type PropsSchemaType =
+	| 'string'
+	| 'number'
+	| 'integer'
+	| 'boolean'
+	| 'object'
+	| 'array'
+	| 'null'
+	| 'undefined';
+
+/**
+ * JSON-Schema-like descriptor of the props
+ */
+export interface PropsSchema {
+	type?: PropsSchemaType | PropsSchemaType[];
+	properties?: Record<string, PropsSchema>;
+	required?: string[];
+	additionalProperties?: boolean;
+	items?: PropsSchema;
+	enum?: unknown[];
+}
+
+export interface PropsValidationIssue {
+	/** path of the failing value, es: "items[0].name" ("" for the props object) */
+	path: string;
+	message: string;
+}
+
+/**
+ * Returns the issues found, true or an empty array when the props are valid.
+ */
+export type PropsValidator = (props: Record<string, any>) => PropsValidationIssue[] | boolean;
+
+export function validate(
+	schema: PropsSchema | PropsValidator,
+	props: Record<string, any>
+): PropsValidationIssue[] {
+	if (typeof schema !== 'function') return validateSchema(schema, props, '');
+
+	const result = schema(props);
+	if (result === true) return [];
+	if (result === false) return [{ path: '', message: 'rejected by the validator' }];
+	return result;
+}
+
+function validateSchema(schema: PropsSchema, value: unknown, path: string): PropsValidationIssue[] {
+	const type = typeOf(value);
+
+	if (schema.type) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		const matches = types.some(
+			(expected) => expected === type || (expected === 'number' && type === 'integer')
+		);
+		if (!matches) return [{ path, message: `expected ${types.join(' | ')}, found ${type}` }];
+	}
+
+	if (schema.enum && !schema.enum.includes(value)) {
+		return [{ path, message: `expected one of ${JSON.stringify(schema.enum)}` }];
+	}
+
+	const issues: PropsValidationIssue[] = [];
+
+	if (type === 'object') {
+		const object = value as Record<string, unknown>;
+		for (const key of schema.required ?? []) {
+			if (object[key] === undefined) issues.push({ path: join(path, key), message: 'required' });
+		}
+		for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+			if (object[key] === undefined) continue;
+			issues.push(...validateSchema(propertySchema, object[key], join(path, key)));
+		}
+		if (schema.additionalProperties === false) {
+			for (const key of Object.keys(object)) {
+				if (!schema.properties?.[key]) {
+					issues.push({ path: join(path, key), message: 'unexpected property' });
+				}
+			}
+		}
+	}
+
+	if (type === 'array' && schema.items) {
+		(value as unknown[]).forEach((item, index) => {
+			issues.push(...validateSchema(schema.items as PropsSchema, item, `${path}[${index}]`));
+		});
+	}
+
+	return issues;
+}
+
+function typeOf(value: unknown): PropsSchemaType {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (Number.isInteger(value)) return 'integer';
+	return typeof value as PropsSchemaType;
+}
+
+function join(path: string, key: string): string {
+	return path ? `${path}.${key}` : key;
+}
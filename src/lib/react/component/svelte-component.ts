@@ -0,0 +1,81 @@
+import type { EventHandlers } from '$lib/SvelteInjector.js';
+import type { SvelteComponent as SvelteComponentT } from 'svelte';
+import { createElement, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import type { SvelteComponentProps } from '../index.js';
+import { useSvelteComponent } from '../hooks/use-svelte-component.js';
+
+/**
+ * @description
+ * React Component for svelte-injector, built on {@link useSvelteComponent}
+ *
+ * @example
+ * <SvelteComponent component={Component | "hello"} props={{name: "world"}}/>
+ *
+ * @example Events
+ * // onSave listens to the "save" event dispatched by the component
+ * <SvelteComponent component={"hello"} onSave={(event) => console.log(event.detail)}/>
+ *
+ * @example Slots
+ * // children are rendered in the default slot
+ * <SvelteComponent component={"card"}><p>Legacy content</p></SvelteComponent>
+ *
+ * @example Two-way binding
+ * <SvelteComponent component={"toggle"} props={{checked}} bindings={["checked"]} onPropsChange={(key, value) => setChecked(value)}/>
+ */
+export function SvelteComponent<T extends SvelteComponentT = any>(props: SvelteComponentProps<T>) {
+	const {
+		component,
+		props: componentProps,
+		toRender,
+		options,
+		onMount,
+		bindings,
+		onPropsChange,
+		children,
+		...rest
+	} = props;
+	const rootElementRef = useRef<HTMLDivElement>(null);
+	const [slotElement] = useState(createSlotElement);
+
+	useSvelteComponent<T>(rootElementRef, component, componentProps ?? emptyProps, {
+		...options,
+		toRender,
+		onMount,
+		on: { ...options?.on, ...extractEventHandlers(rest) },
+		bindings: bindings ?? options?.bindings,
+		onPropsChange: onPropsChange ?? options?.onPropsChange,
+		slots: children ? { ...options?.slots, default: [slotElement] } : options?.slots
+	});
+
+	return createElement(
+		'div',
+		{ style: { display: 'contents' }, ref: rootElementRef },
+		children ? createPortal(children, slotElement) : null
+	);
+}
+
+// Same object on every render: omitted props don't update the element
+const emptyProps = {};
+
+/**
+ * Children are rendered by React in this element, then the element is projected in the default slot
+ */
+function createSlotElement(): HTMLDivElement {
+	const slotElement = document.createElement('div');
+	slotElement.style.display = 'contents';
+	return slotElement;
+}
+
+/**
+ * Maps onXxx props to the xxx event of the Svelte component
+ */
+function extractEventHandlers(props: Record<string, any>): EventHandlers {
+	const handlers: EventHandlers = {};
+	for (const [key, value] of Object.entries(props)) {
+		if (/^on[A-Z]/.test(key) && typeof value === 'function') {
+			handlers[key.charAt(2).toLowerCase() + key.slice(3)] = value;
+		}
+	}
+	return handlers;
+}
@@ -0,0 +1,127 @@
+import {
+	type CreateOptions,
+	type EventHandlers,
+	type SvelteElement,
+	create
+} from '$lib/SvelteInjector.js';
+import type { ComponentProps, ComponentType, SvelteComponent } from 'svelte';
+import { type MutableRefObject, type RefObject, useEffect, useRef } from 'react';
+
+export interface UseSvelteComponentOptions<T extends SvelteComponent = any> extends CreateOptions {
+	/** toRender (default: true) */
+	toRender?: boolean;
+	/** function called on mount with parameters: *element* */
+	onMount?: (element: SvelteElement<T>) => void;
+}
+
+/**
+ * @description
+ * React hook for svelte-injector: renders the component in the element of the ref.
+ *
+ * The component is created when the element is attached, recreated when *component* changes and destroyed on unmount.
+ * Props and toRender changes are forwarded to the element, the listeners are bound again when events are added or removed.
+ * Event handlers, onPropsChange and onMount are always the last ones passed. The other options are read on creation.
+ *
+ * @example
+ * const ref = useRef<HTMLDivElement>(null);
+ * const element = useSvelteComponent(ref, 'hello', { name }, { on: { save: onSave } });
+ *
+ * return <div ref={ref} />;
+ *
+ * @return - A ref holding the {@link SvelteElement} once mounted
+ */
+export function useSvelteComponent<T extends SvelteComponent = any>(
+	ref: RefObject<HTMLElement>,
+	component: ComponentType<T> | string,
+	props: ComponentProps<T>,
+	options: UseSvelteComponentOptions<T> = {}
+): MutableRefObject<SvelteElement<T> | undefined> {
+	const elementRef = useRef<SvelteElement<T>>();
+	const latest = useRef({ props, options });
+	latest.current = { props, options };
+
+	useEffect(() => {
+		const target = ref.current;
+		if (!target) return;
+
+		// Pending creations can't be cancelled: each one gets its own container,
+		// so that StrictMode double effects don't create two elements on the same node
+		const container = document.createElement('div');
+		container.style.display = 'contents';
+		target.appendChild(container);
+
+		const { props: initialProps, options: initialOptions } = latest.current;
+		const { toRender = true, onMount, ...createOptions } = initialOptions;
+		let cancelled = false;
+
+		create<T>(container, component, initialProps, toRender, {
+			...createOptions,
+			on: forwardEventHandlers(createOptions.on, () => latest.current.options.on),
+			onPropsChange: (key, value) => latest.current.options.onPropsChange?.(key, value)
+		})
+			.then((element) => {
+				if (cancelled) {
+					element.destroy();
+					return;
+				}
+				elementRef.current = element;
+
+				// Changed while the component was loading
+				const { props, options } = latest.current;
+				if (props !== initialProps) element.updateProps(props);
+				if ((options.toRender ?? true) !== toRender) element.setToRender(options.toRender ?? true);
+				if (getEventNames(options.on) !== getEventNames(createOptions.on)) {
+					element.updateEventHandlers(
+						forwardEventHandlers(options.on, () => latest.current.options.on)
+					);
+				}
+
+				latest.current.options.onMount?.(element);
+			})
+			.catch((error) => {
+				if (!cancelled) console.error('Could not create component:', component, error);
+			});
+
+		return () => {
+			cancelled = true;
+			elementRef.current?.destroy();
+			elementRef.current = undefined;
+			container.remove();
+		};
+	}, [ref, component]);
+
+	useEffect(() => {
+		elementRef.current?.updateProps(props);
+	}, [props]);
+
+	const toRender = options.toRender ?? true;
+	useEffect(() => {
+		elementRef.current?.setToRender(toRender);
+	}, [toRender]);
+
+	// Handlers are forwarded: the listeners change only with the event names
+	const eventNames = getEventNames(options.on);
+	useEffect(() => {
+		elementRef.current?.updateEventHandlers(
+			forwardEventHandlers(latest.current.options.on, () => latest.current.options.on)
+		);
+	}, [eventNames]);
+
+	return elementRef;
+}
+
+/**
+ * Handlers call the last handler passed for the same event.
+ */
+function forwardEventHandlers(
+	on: EventHandlers = {},
+	getHandlers: () => EventHandlers | undefined
+): EventHandlers {
+	return Object.fromEntries(
+		Object.keys(on).map((event) => [event, (e: CustomEvent) => getHandlers()?.[event]?.(e)])
+	);
+}
+
+function getEventNames(on: EventHandlers = {}): string {
+	return Object.keys(on).sort().join(' ');
+}
@@ -1,25 +1,39 @@
 import type { SvelteComponent as SvelteComponentT, ComponentProps, ComponentType } from 'svelte';
-import type { CreateOptions, SvelteElement } from '$lib/SvelteInjector.js';
+import type { ReactNode } from 'react';
+import type { CreateOptions, PropsChangeHandler, SvelteElement } from '$lib/SvelteInjector.js';
 
-export { SvelteComponent } from './component/svelte-component.jsx';
+export { SvelteComponent } from './component/svelte-component.js';
+export {
+	useSvelteComponent,
+	type UseSvelteComponentOptions
+} from './hooks/use-svelte-component.js';
 
-export type SvelteComponentProps<T extends SvelteComponentT = any> =
+export type SvelteComponentProps<T extends SvelteComponentT = any> = (
 	| {
 			/** component link name*/
 			component: string;
 			/** props object*/
 			props?: any;
 	  }
-	| ({
+	| {
 			/** component class*/
 			component: ComponentType<T>;
 			/** props object*/
 			props?: ComponentProps<T>;
-	  } & {
-			/** toRender (default: true) */
-			toRender?: boolean;
-			/** options (default: CreateOptions) */
-			options?: CreateOptions;
-			/** function called with on mount with parameters: *element* */
-			onMount?: (element: SvelteElement) => void;
-	  });
+	  }
+) & {
+	/** toRender (default: true) */
+	toRender?: boolean;
+	/** options (default: CreateOptions) */
+	options?: CreateOptions;
+	/** function called with on mount with parameters: *element* */
+	onMount?: (element: SvelteElement) => void;
+	/** names of the props to bind two-way */
+	bindings?: string[];
+	/** function called when a bound prop changes with parameters: *key*, *value* */
+	onPropsChange?: PropsChangeHandler;
+	/** content of the default slot */
+	children?: ReactNode;
+	/** onXxx: listener for the xxx event of the component */
+	[event: `on${string}`]: ((...args: any[]) => void) | undefined;
+};
@@ -0,0 +1,10 @@
+export { renderComponent } from './render.js';
+export type { RenderOptions, RenderResult } from './render.js';
+// Plain Node can't load the main entry, which exports Svelte files: the registry is available from here too
+export {
+	registerComponent,
+	registerComponents,
+	registerPropsCodec,
+	createInjector,
+	defaultInjector
+} from '$lib/SvelteInjector.js';
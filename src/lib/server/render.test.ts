@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { ComponentType } from 'svelte';
+import { renderComponent } from './render.js';
+import { createInjector, deserializeProps } from '../SvelteInjector.js';
+
+// Same shape as a Svelte 3/4 component compiled for SSR
+const Hello = {
+	render: (props: Record<string, any>) => ({
+		html: `<p>${props.name}</p>`,
+		head: '<title>hello</title>',
+		css: { code: 'p{}' }
+	})
+} as unknown as ComponentType;
+
+function setup() {
+	const injector = createInjector();
+	injector.registerComponent('hello', Hello);
+	return injector;
+}
+
+function getPropsBlock(html: string): string {
+	return html.match(/<template class="props"[^>]*>([\s\S]*?)<\/template>/)?.[1] ?? '';
+}
+
+describe('renderComponent', () => {
+	it('renders the placeholder with the props block and the component HTML', async () => {
+		const injector = setup();
+		const { html, head, css } = await renderComponent('hello', { name: 'world' }, { injector });
+
+		expect(html).toMatch(/^<div data-component-name="hello" data-ssr><template class="props">/);
+		expect(html).toMatch(/<\/template><p>world<\/p><\/div>$/);
+		expect(deserializeProps(getPropsBlock(html))).toEqual({ name: 'world' });
+		expect(head).toBe('<title>hello</title>');
+		expect(css.code).toBe('p{}');
+	});
+
+	it('renders only the placeholder when toRender is false', async () => {
+		const injector = setup();
+		const { html } = await renderComponent(
+			'hello',
+			{ name: 'world' },
+			{ injector, toRender: false }
+		);
+
+		expect(html).toMatch(/^<div data-component-name="hello" data-to-render="false"><template/);
+		expect(html).not.toContain('<p>');
+	});
+
+	it('escapes markup in unencoded JSON props', async () => {
+		const injector = setup();
+		const props = { name: '</template><b>x</b> & co' };
+		const { html } = await renderComponent('hello', props, { injector, encode: false });
+		const block = getPropsBlock(html);
+
+		expect(block).not.toMatch(/[<>&]/);
+		expect(deserializeProps(block)).toEqual(props);
+	});
+
+	it('escapes markup in unencoded props of other formats', async () => {
+		const injector = setup();
+		const props = { name: '</template><b>x</b> &amp;' };
+		const { html } = await renderComponent('hello', props, {
+			injector,
+			encode: false,
+			format: 'devalue'
+		});
+		const block = getPropsBlock(html);
+
+		expect(block).not.toMatch(/<|>|&(?!amp;|lt;|gt;)/);
+		const decoded = block.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+		expect(deserializeProps(decoded, 'devalue')).toEqual(props);
+	});
+
+	it('rejects unknown components', async () => {
+		await expect(renderComponent('missing', {}, { injector: setup() })).rejects.toMatch(
+			'Requested component "missing" not found'
+		);
+	});
+
+	it('rejects components that are not compiled for SSR', async () => {
+		const injector = setup();
+		injector.registerComponent('client', class {} as unknown as ComponentType);
+
+		await expect(renderComponent('client', {}, { injector })).rejects.toMatch(
+			`Component "client" can't be rendered on the server`
+		);
+	});
+});
@@ -0,0 +1,101 @@
+import type { ComponentProps, ComponentType, SvelteComponent } from 'svelte';
+import {
+	type Context,
+	type Injector,
+	defaultInjector,
+	generatePropsBlock
+} from '$lib/SvelteInjector.js';
+
+export interface RenderOptions {
+	/** props format, as registered with registerPropsCodec (default: "json") */
+	format?: string;
+	/** encode the props block (default: true) */
+	encode?: boolean;
+	/** render the component HTML, or only the placeholder with data-to-render="false" (default: true) */
+	toRender?: boolean;
+	/** context of the component */
+	context?: Context;
+	/** injector in which the component is registered (default: defaultInjector) */
+	injector?: Injector;
+}
+
+export interface RenderResult {
+	/** placeholder markup, with the props block and the component HTML */
+	html: string;
+	head: string;
+	css: { code: string };
+}
+
+interface ServerComponent {
+	render(
+		props: Record<string, any>,
+		options: { context?: Context }
+	): { html: string; head: string; css: { code: string } };
+}
+
+/**
+ * Renders the placeholder of a registered component on the server, with the component HTML.
+ * On the client, {@link hydrate} claims the rendered HTML instead of rendering the component again:
+ * client components must be compiled with `hydratable: true`.
+ *
+ * Only Svelte 3/4 components can be rendered.
+ *
+ * @example
+ * import { renderComponent } from 'svelte-injector/server';
+ *
+ * const { html, head, css } = await renderComponent('hello', { name: 'world' });
+ *
+ * @param name - name of the component as previously registered with {@link registerComponent}
+ * @param props - An object with props compatible with the Svelte Component
+ * @param options - Object with options, optional
+ *
+ * @return - A promise that resolves the {@link RenderResult}
+ */
+export async function renderComponent<T extends SvelteComponent = SvelteComponent>(
+	name: string,
+	props: ComponentProps<T>,
+	{
+		format = 'json',
+		encode = true,
+		toRender = true,
+		context,
+		injector = defaultInjector
+	} = {} as RenderOptions
+): Promise<RenderResult> {
+	const Component = await injector.findComponentByName<T>(name);
+	if (!Component) {
+		return Promise.reject(`Requested component "${name}" not found. Did you link it first?`);
+	}
+	if (!isServerComponent(Component)) {
+		return Promise.reject(
+			`Component "${name}" can't be rendered on the server. Is it a Svelte 3/4 component compiled for SSR?`
+		);
+	}
+
+	const propsBlock = generatePropsBlock(props, encode, format);
+	const attributes = [`data-component-name="${escapeAttribute(name)}"`];
+
+	if (!toRender) {
+		attributes.push('data-to-render="false"');
+		return {
+			html: `<div ${attributes.join(' ')}>${propsBlock}</div>`,
+			head: '',
+			css: { code: '' }
+		};
+	}
+
+	const { html, head, css } = Component.render(props, { context });
+	attributes.push('data-ssr');
+
+	return { html: `<div ${attributes.join(' ')}>${propsBlock}${html}</div>`, head, css };
+}
+
+function isServerComponent<T extends SvelteComponent>(
+	Component: ComponentType<T>
+): Component is ComponentType<T> & ServerComponent {
+	return typeof (Component as unknown as ServerComponent).render === 'function';
+}
+
+function escapeAttribute(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
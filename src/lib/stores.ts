@@ -1,4 +1,4 @@
-import { writable } from 'svelte/store';
-import type { SvelteElement } from './SvelteInjector.js';
+import { defaultInjector } from './SvelteInjector.js';
 
-export let components = writable([] as SvelteElement[]);
+/** Components store of the default injector, kept for compatibility */
+export const components = defaultInjector.components;
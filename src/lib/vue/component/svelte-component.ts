@@ -0,0 +1,111 @@
+import {
+	type CreateOptions,
+	type EventHandlers,
+	type SvelteElement,
+	create
+} from '$lib/SvelteInjector.js';
+import type { ComponentType } from 'svelte';
+import { type PropType, defineComponent, h, onBeforeUnmount, onMounted, ref, watch } from 'vue';
+
+/**
+ * @description
+ * Vue 3 Component for svelte-injector
+ *
+ * **Props:**
+ *
+ * component - component class or link name
+ *
+ * props - props object
+ *
+ * toRender (default: true)
+ *
+ * options (default: CreateOptions)
+ *
+ * **Events:**
+ *
+ * mount - emitted on mount with the *element*
+ *
+ * Any other listener is bound to the component event with the same name.
+ *
+ * @example
+ * <SvelteComponent component="hello" :props="{ name: 'world' }" @mount="setChildElement" @save="onSave" />
+ */
+export const SvelteComponent = defineComponent({
+	name: 'SvelteComponent',
+	inheritAttrs: false,
+	props: {
+		component: {
+			type: [String, Function] as PropType<string | ComponentType>,
+			required: true
+		},
+		props: {
+			type: Object,
+			default: () => ({})
+		},
+		toRender: {
+			type: Boolean,
+			default: true
+		},
+		options: {
+			type: Object as PropType<CreateOptions>,
+			default: () => ({})
+		}
+	},
+	emits: ['mount'],
+	setup(props, { attrs, emit }) {
+		const rootElement = ref<HTMLElement>();
+		let element: SvelteElement | undefined;
+		let unmounted = false;
+
+		onMounted(() => {
+			if (!rootElement.value) return;
+			const on = { ...props.options.on, ...extractEventHandlers(attrs) };
+			create(rootElement.value, props.component, { ...props.props }, props.toRender, {
+				...props.options,
+				on
+			})
+				.then((el) => {
+					if (unmounted) {
+						el.destroy();
+						return;
+					}
+					element = el;
+					emit('mount', el);
+				})
+				.catch((error) => {
+					if (!unmounted) console.error('Could not create component:', props.component, error);
+				});
+		});
+
+		watch(
+			() => props.props,
+			(componentProps) => element?.updateProps({ ...componentProps }),
+			{ deep: true }
+		);
+
+		watch(
+			() => props.toRender,
+			(toRender) => element?.setToRender(toRender)
+		);
+
+		onBeforeUnmount(() => {
+			unmounted = true;
+			element?.destroy();
+		});
+
+		return () => h('div', { ref: rootElement, style: { display: 'contents' } });
+	}
+});
+
+/**
+ * Maps onXxx listeners to the xxx event of the Svelte component
+ */
+function extractEventHandlers(attrs: Record<string, unknown>): EventHandlers {
+	const handlers: EventHandlers = {};
+	for (const [key, value] of Object.entries(attrs)) {
+		if (/^on[A-Z]/.test(key) && typeof value === 'function') {
+			handlers[key.charAt(2).toLowerCase() + key.slice(3)] = value as EventHandlers[string];
+		}
+	}
+	return handlers;
+}
@@ -0,0 +1,15 @@
+import type { SvelteComponent as SvelteComponentT, ComponentProps, ComponentType } from 'svelte';
+import type { CreateOptions } from '$lib/SvelteInjector.js';
+
+export { SvelteComponent } from './component/svelte-component.js';
+
+export type SvelteComponentProps<T extends SvelteComponentT = any> = {
+	/** component class or link name*/
+	component: ComponentType<T> | string;
+	/** props object*/
+	props?: ComponentProps<T>;
+	/** toRender (default: true) */
+	toRender?: boolean;
+	/** options (default: CreateOptions) */
+	options?: CreateOptions;
+};
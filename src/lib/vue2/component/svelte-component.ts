@@ -0,0 +1,116 @@
+import {
+	type CreateOptions,
+	type EventHandlers,
+	type SvelteElement,
+	create
+} from '$lib/SvelteInjector.js';
+import type { ComponentType } from 'svelte';
+
+interface SvelteComponentInstance {
+	component: string | ComponentType;
+	props: Record<string, any>;
+	toRender: boolean;
+	options: CreateOptions;
+	element?: SvelteElement;
+	unmounted?: boolean;
+	$el: HTMLElement;
+	$listeners: Record<string, Function | Function[]>;
+	$emit(event: string, ...args: any[]): void;
+}
+
+/**
+ * @description
+ * Vue 2 Component for svelte-injector
+ *
+ * **Props:**
+ *
+ * component - component class or link name
+ *
+ * props - props object
+ *
+ * toRender (default: true)
+ *
+ * options (default: CreateOptions)
+ *
+ * **Events:**
+ *
+ * mount - emitted on mount with the *element*
+ *
+ * Any other listener is bound to the component event with the same name.
+ *
+ * @example
+ * <svelte-component component="hello" :props="{ name: 'world' }" @mount="setChildElement" @save="onSave" />
+ */
+export const SvelteComponent = {
+	name: 'SvelteComponent',
+	props: {
+		component: {
+			type: [String, Function],
+			required: true
+		},
+		props: {
+			type: Object,
+			default: () => ({})
+		},
+		toRender: {
+			type: Boolean,
+			default: true
+		},
+		options: {
+			type: Object,
+			default: () => ({})
+		}
+	},
+	mounted(this: SvelteComponentInstance) {
+		const on = { ...this.options.on, ...extractEventHandlers(this.$listeners) };
+		create(this.$el, this.component, { ...this.props }, this.toRender, {
+			...this.options,
+			on
+		})
+			.then((element) => {
+				if (this.unmounted) {
+					element.destroy();
+					return;
+				}
+				// Not declared in data: the element should not be reactive
+				this.element = element;
+				this.$emit('mount', element);
+			})
+			.catch((error) => {
+				if (!this.unmounted) console.error('Could not create component:', this.component, error);
+			});
+	},
+	watch: {
+		props: {
+			handler(this: SvelteComponentInstance, props: Record<string, any>) {
+				this.element?.updateProps({ ...props });
+			},
+			deep: true
+		},
+		toRender(this: SvelteComponentInstance, toRender: boolean) {
+			this.element?.setToRender(toRender);
+		}
+	},
+	beforeDestroy(this: SvelteComponentInstance) {
+		this.unmounted = true;
+		this.element?.destroy();
+	},
+	render(h: (tag: string, data: Record<string, any>) => unknown) {
+		return h('div', { style: { display: 'contents' } });
+	}
+};
+
+/**
+ * Maps the component listeners to the Svelte component events
+ */
+function extractEventHandlers(listeners: SvelteComponentInstance['$listeners']): EventHandlers {
+	const handlers: EventHandlers = {};
+	for (const [event, listener] of Object.entries(listeners)) {
+		if (event === 'mount') continue;
+		const callbacks = Array.isArray(listener) ? listener : [listener];
+		handlers[event] = (e) => {
+			for (const callback of callbacks) callback(e);
+		};
+	}
+	return handlers;
+}